@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import axios from "axios";
-import { AIModel, ImageItem, AppSettings, DEFAULT_SETTINGS, LogEntry, TaskItem, WorkflowStage, MODEL_CONFIGS, GenerateRequest } from "./types";
+import { ModelConfig, DEFAULT_MODEL, ImageItem, AppSettings, DEFAULT_SETTINGS, LogEntry, TaskItem, WorkflowStage, GenerateRequest, RemixOverrides, BatchMode, BatchItem, BatchRequest, PipelineRun, PipelineRequest, PipelineStepRequest, ServerEvent, PreviewResult, Page, TaskFilters, DEFAULT_TASK_FILTERS, UserAccount, ApiToken, AuthSession, QuotaStatus, Role, UsageSummary, Project, ProjectPrompts, ImageUpdate } from "./types";
 import { SectionWrapper } from "./components/SectionWrapper";
 import { ImageGrid } from "./components/ImageGrid";
 import { Lightbox } from "./components/Lightbox";
@@ -8,7 +8,17 @@ import { SettingsModal } from "./components/SettingsModal";
 import { SystemLogsModal } from "./components/SystemLogsModal";
 import { TaskListModal } from "./components/TaskListModal";
 import { PromptModal } from "./components/PromptModal";
-import { Shirt, User, Scissors, Image as ImageIcon, Copy, Settings, FileText, List, Link2Off } from "lucide-react";
+import { UsageModal } from "./components/UsageModal";
+import { RemixModal } from "./components/RemixModal";
+import { PipelineModal } from "./components/PipelineModal";
+import { PreviewModal } from "./components/PreviewModal";
+import { LoginScreen } from "./components/LoginScreen";
+import { AccountModal } from "./components/AccountModal";
+import { ProjectModal, ProjectFields } from "./components/ProjectModal";
+import { Shirt, User, Scissors, Image as ImageIcon, Copy, Settings, FileText, List, Link2Off, Workflow, CircleUser, LogOut, Coins, FolderKanban } from "lucide-react";
+
+// The backend runs on another port and signs in with a session cookie
+axios.defaults.withCredentials = true;
 
 // --- Simple Local Auto-Detection Logic ---
 const detectDefaultApiUrl = () => {
@@ -33,11 +43,73 @@ const detectDefaultApiUrl = () => {
     }
 };
 
+// Uploads and tasks are scoped to this project; remembered per browser
+const PROJECT_STORAGE_KEY = 'doll_workflow_project';
+
+// Settings field holding each stage's prompt, which a project may override
+const STAGE_PROMPT_FIELDS: Record<'hairstyle' | 'assembly' | 'replacement', keyof ProjectPrompts> = {
+  hairstyle: 'promptHairstyle',
+  assembly: 'promptAssembly',
+  replacement: 'promptReplacement',
+};
+const STAGE_PROMPT_STAGES: Record<'hairstyle' | 'assembly' | 'replacement', WorkflowStage> = {
+  hairstyle: WorkflowStage.HAIRSTYLE_EXTRACTION,
+  assembly: WorkflowStage.DOLL_ASSEMBLY,
+  replacement: WorkflowStage.DOLL_REPLACEMENT,
+};
+
+// Most recent tasks kept in memory, for batch progress
+const RECENT_TASKS_LIMIT = 200;
+// Input images fetched per category, and per "load more"
+const IMAGE_PAGE_SIZE = 100;
+// Completed tasks whose outputs are shown per section, and per "load more"
+const OUTPUT_TASK_PAGE_SIZE = 50;
+// Most recent batches and pipeline runs shown in the task list
+const RUN_LIST_LIMIT = 20;
+// Task events come in bursts (a 100-task batch); quota and usage are refetched at most this often
+const REFETCH_DELAY_MS = 1000;
+// Sections with an output grid
+const OUTPUT_STAGES = [WorkflowStage.HAIRSTYLE_EXTRACTION, WorkflowStage.DOLL_ASSEMBLY, WorkflowStage.DOLL_REPLACEMENT];
+const TASK_PAGE_SIZE = 50;
+
+// Input categories, as offered by "move to"
+const IMAGE_CATEGORIES = [
+  { category: 'hair-ref', label: '发型参考' },
+  { category: 'hair-mannequin', label: '假人模特' },
+  { category: 'asm-hair', label: '组装 · 发型' },
+  { category: 'asm-body', label: '组装 · 本体' },
+  { category: 'asm-cloth', label: '组装 · 衣服' },
+  { category: 'rep-ref', label: '替换 · 对标图' },
+  { category: 'rep-prod', label: '替换 · 产品图' },
+];
+
+// Replaces the item with the same id, or prepends it if it is new
+const upsertById = <T extends { id: string }>(items: T[], item: T): T[] => {
+  return items.some(i => i.id === item.id) ? items.map(i => i.id === item.id ? item : i) : [item, ...items];
+};
+
+// Number of tasks a selection expands into; 0 when a zip selection cannot be paired
+const countBatchTasks = (slotCounts: number[], mode: BatchMode) => {
+    if (slotCounts.some(c => c === 0)) return 0;
+    if (mode === 'zip') {
+        const length = Math.max(...slotCounts);
+        return slotCounts.every(c => c === 1 || c === length) ? length : 0;
+    }
+    return slotCounts.reduce((acc, c) => acc * c, 1);
+};
+
 export default function App() {
   // --- Global State ---
   // API Endpoint State (Loaded from auto-detect or local storage)
   const [apiEndpoint, setApiEndpoint] = useState<string>(detectDefaultApiUrl());
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'checking'>('checking');
+  // null while the session check is on the way
+  const [authSession, setAuthSession] = useState<AuthSession | null>(null);
+  const authUser = authSession?.user || null;
+  // Viewers browse only; operators generate and delete their own uploads; admins also change settings
+  const isAdmin = authUser?.role === 'admin';
+  const canGenerate = isAdmin || authUser?.role === 'operator';
+  const canModify = (owner?: string) => isAdmin || (!!owner && owner === authUser?.username);
   
   // UI State
   const [lightboxImage, setLightboxImage] = useState<ImageItem | null>(null);
@@ -45,11 +117,41 @@ export default function App() {
   const [isLogsOpen, setIsLogsOpen] = useState(false);
   const [isTasksOpen, setIsTasksOpen] = useState(false);
   const [activePromptSection, setActivePromptSection] = useState<'hairstyle' | 'assembly' | 'replacement' | null>(null);
+  const [remixTask, setRemixTask] = useState<TaskItem | null>(null);
+  const [isPipelineOpen, setIsPipelineOpen] = useState(false);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [isAccountOpen, setIsAccountOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
 
   // Data State
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [tasks, setTasks] = useState<TaskItem[]>([]);
+  const [batches, setBatches] = useState<BatchItem[]>([]);
+  const [pipelines, setPipelines] = useState<PipelineRun[]>([]);
+  const [models, setModels] = useState<ModelConfig[]>([]);
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [quota, setQuota] = useState<QuotaStatus[]>([]);
+  // Month-to-date spend for the header
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  // '' is the pool of images and tasks outside any project
+  const [activeProjectId, setActiveProjectId] = useState<string>(() => localStorage.getItem(PROJECT_STORAGE_KEY) || '');
+  // For the event handler, which should not reconnect the stream on every switch
+  const activeProjectIdRef = useRef(activeProjectId);
+  activeProjectIdRef.current = activeProjectId;
+  const activeProject = projects.find(p => p.id === activeProjectId) || null;
+  // ?project= value of the list endpoints
+  const projectParam = activeProjectId || 'none';
+
+  // Task list modal: one server-side page at a time, plus the expanded task with its logs
+  const [taskFilters, setTaskFilters] = useState<TaskFilters>(DEFAULT_TASK_FILTERS);
+  const [taskListPage, setTaskListPage] = useState(1);
+  const [taskList, setTaskList] = useState<Page<TaskItem> | null>(null);
+  const [taskListRevision, setTaskListRevision] = useState(0);
+  const [taskDetail, setTaskDetail] = useState<TaskItem | null>(null);
 
   // Image State Categories
   const [hairRefImages, setHairRefImages] = useState<ImageItem[]>([]);
@@ -65,8 +167,23 @@ export default function App() {
   const [replaceProdImages, setReplaceProdImages] = useState<ImageItem[]>([]);
   const [replaceOutputImages, setReplaceOutputImages] = useState<ImageItem[]>([]);
 
+  // Cursor of the next page per input category; undefined once everything is loaded
+  const [imageCursors, setImageCursors] = useState<Record<string, string | undefined>>({});
+  const loadedImageCountsRef = useRef<Record<string, number>>({});
+  const loadingImagesRef = useRef<Set<string>>(new Set());
+  // Completed tasks per stage, newest first; their images fill the output grids
+  const [outputTasks, setOutputTasks] = useState<Record<string, TaskItem[]>>({});
+  const [outputCursors, setOutputCursors] = useState<Record<string, string | undefined>>({});
+  const loadedOutputCountsRef = useRef<Record<string, number>>({});
+  // Name/tag search per input category; the ref is read by fetches and live updates
+  const [imageSearches, setImageSearches] = useState<Record<string, string>>({});
+  const imageSearchesRef = useRef<Record<string, string>>({});
+
   // Refs for polling interval cleanup
   const pollIntervalRef = useRef<any>(null);
+  // Stages with a generate request on the way, so a double click does not submit twice
+  const submittingStagesRef = useRef<Set<WorkflowStage>>(new Set());
+  const [isStreamConnected, setIsStreamConnected] = useState(false);
 
   // --- Helpers ---
 
@@ -115,8 +232,62 @@ export default function App() {
       }));
   };
 
+  // Server returns relative /files/... URLs; point them at the backend host
+  const resolveServerImage = useCallback((img: ImageItem): ImageItem => {
+    if (!img.url) return img;
+    if (img.url.startsWith('http')) return img;
+    let base = apiEndpoint.replace(/\/api$/, '');
+    return { ...img, url: `${base}${img.url}` };
+  }, [apiEndpoint]);
+
+  const resolveTask = useCallback((t: TaskItem): TaskItem => ({
+    ...t,
+    outputImages: (t.outputImages || []).map(resolveServerImage),
+    inputImages: (t.inputImages || []).map(resolveServerImage)
+  }), [resolveServerImage]);
+
+  const inputImageSetters: Record<string, React.Dispatch<React.SetStateAction<ImageItem[]>>> = {
+    'hair-ref': setHairRefImages,
+    'hair-mannequin': setHairMannequinImages,
+    'asm-hair': setAssemblyHairImages,
+    'asm-body': setAssemblyBodyImages,
+    'asm-cloth': setAssemblyClothImages,
+    'rep-ref': setReplaceRefImages,
+    'rep-prod': setReplaceProdImages
+  };
+
   // --- API Integrations ---
 
+  const fetchQuota = useCallback(async () => {
+    try {
+        const res = await axios.get(`${apiEndpoint}/quota`);
+        setQuota(res.data || []);
+    } catch (e: any) {
+        console.warn("Quota fetch failed:", e.message);
+    }
+  }, [apiEndpoint]);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+        const res = await axios.get(`${apiEndpoint}/usage`);
+        setUsage(res.data);
+    } catch (e: any) {
+        console.warn("Usage fetch failed:", e.message);
+    }
+  }, [apiEndpoint]);
+
+  // One trailing refetch per key: events arriving while it is pending are covered by it
+  const refetchTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const scheduleRefetch = useCallback((key: string, fetch: () => void) => {
+    if (refetchTimersRef.current[key]) return;
+    refetchTimersRef.current[key] = setTimeout(() => {
+        delete refetchTimersRef.current[key];
+        fetch();
+    }, REFETCH_DELAY_MS);
+  }, []);
+
+  useEffect(() => () => Object.values(refetchTimersRef.current).forEach(clearTimeout), []);
+
   const fetchData = useCallback(async () => {
     if (!apiEndpoint) return;
 
@@ -130,67 +301,308 @@ export default function App() {
             addLog('INFO', `Connected to Backend: ${apiEndpoint}`);
         }
 
+        const resModels = await axios.get(`${apiEndpoint}/models`);
+        setModels(resModels.data || []);
+
+        const resQuota = await axios.get(`${apiEndpoint}/quota`);
+        setQuota(resQuota.data || []);
+
+        const resUsage = await axios.get(`${apiEndpoint}/usage`);
+        setUsage(resUsage.data);
+
+        const resProjects = await axios.get(`${apiEndpoint}/projects`);
+        const fetchedProjects: Project[] = resProjects.data || [];
+        setProjects(fetchedProjects);
+        // Deleted elsewhere: fall back to the unscoped pool, which refetches
+        if (activeProjectId && !fetchedProjects.some(p => p.id === activeProjectId)) {
+            handleProjectChange('');
+            return;
+        }
+
         // 2. Tasks
-        const resTasks = await axios.get(`${apiEndpoint}/tasks`);
-        
-        // Helper to resolve image paths
-        const resolveImg = (img: ImageItem) => {
-             if (!img.url) return img;
-             if (img.url.startsWith('http')) return img;
-             let base = apiEndpoint.replace(/\/api$/, ''); 
-             return { ...img, url: `${base}${img.url}` };
-        };
-
-        const fetchedTasks: TaskItem[] = resTasks.data || [];
-        const resolvedTasks = fetchedTasks.map(t => ({
-            ...t,
-            outputImages: (t.outputImages || []).map(resolveImg),
-            inputImages: (t.inputImages || []).map(resolveImg)
+        const resTasks = await axios.get(`${apiEndpoint}/tasks`, { params: { limit: RECENT_TASKS_LIMIT, project: projectParam } });
+        const fetchedTasks: TaskItem[] = resTasks.data.items || [];
+        setTasks(fetchedTasks.map(resolveTask));
+        setTaskListRevision(r => r + 1);
+
+        const resBatches = await axios.get(`${apiEndpoint}/batches`, { params: { limit: RUN_LIST_LIMIT, project: projectParam } });
+        setBatches(resBatches.data.items || []);
+
+        const resPipelines = await axios.get(`${apiEndpoint}/pipelines`, { params: { limit: RUN_LIST_LIMIT, project: projectParam } });
+        setPipelines(resPipelines.data.items || []);
+
+        // Section outputs, per stage. A refresh re-reads as many tasks as were already loaded.
+        await Promise.all(OUTPUT_STAGES.map(async (stage) => {
+            const limit = Math.max(OUTPUT_TASK_PAGE_SIZE, loadedOutputCountsRef.current[stage] || 0);
+            const resOutputs = await axios.get(`${apiEndpoint}/tasks`, { params: { status: 'completed', stage, limit, project: projectParam } });
+            const page: Page<TaskItem> = resOutputs.data;
+            loadedOutputCountsRef.current[stage] = page.items.length;
+            setOutputTasks(prev => ({ ...prev, [stage]: page.items.map(resolveTask) }));
+            setOutputCursors(prev => ({ ...prev, [stage]: page.nextCursor }));
+        }));
+
+        // 3. Images, per category. A refresh re-reads as many as were already loaded.
+        await Promise.all(Object.entries(inputImageSetters).map(async ([category, setter]) => {
+            const limit = Math.max(IMAGE_PAGE_SIZE, loadedImageCountsRef.current[category] || 0);
+            const q = imageSearchesRef.current[category] || undefined;
+            const resImages = await axios.get(`${apiEndpoint}/images`, { params: { category, limit, project: projectParam, q } });
+            const page: Page<ImageItem> = resImages.data;
+            loadedImageCountsRef.current[category] = page.items.length;
+            // Update Input Images with Selection Preservation
+            setter(prev => mergePreservingSelection(prev, page.items.map(resolveServerImage)));
+            setImageCursors(prev => ({ ...prev, [category]: page.nextCursor }));
         }));
-        setTasks(resolvedTasks);
-        
-        // Distribute outputs
-        const newHairOut: ImageItem[] = [];
-        const newAsmOut: ImageItem[] = [];
-        const newRepOut: ImageItem[] = [];
-        resolvedTasks.forEach(t => {
-            if(t.status === 'completed' && t.outputImages) {
-                 if (t.type === "HAIRSTYLE EXTRACTION") newHairOut.push(...t.outputImages);
-                 else if (t.type === "DOLL ASSEMBLY") newAsmOut.push(...t.outputImages);
-                 else if (t.type === "DOLL REPLACEMENT") newRepOut.push(...t.outputImages);
-            }
-        });
-        
-        // Update Output Images with Selection Preservation
-        setHairOutputImages(prev => mergePreservingSelection(prev, newHairOut));
-        setAssemblyOutputImages(prev => mergePreservingSelection(prev, newAsmOut));
-        setReplaceOutputImages(prev => mergePreservingSelection(prev, newRepOut));
-
-        // 3. Images
-        const resImages = await axios.get(`${apiEndpoint}/images`);
-        const allImages: ImageItem[] = (resImages.data || []).map(resolveImg);
-        
-        // Update Input Images with Selection Preservation
-        setHairRefImages(prev => mergePreservingSelection(prev, allImages.filter(i => i.category === 'hair-ref')));
-        setHairMannequinImages(prev => mergePreservingSelection(prev, allImages.filter(i => i.category === 'hair-mannequin')));
-        setAssemblyHairImages(prev => mergePreservingSelection(prev, allImages.filter(i => i.category === 'asm-hair')));
-        setAssemblyBodyImages(prev => mergePreservingSelection(prev, allImages.filter(i => i.category === 'asm-body')));
-        setAssemblyClothImages(prev => mergePreservingSelection(prev, allImages.filter(i => i.category === 'asm-cloth')));
-        setReplaceRefImages(prev => mergePreservingSelection(prev, allImages.filter(i => i.category === 'rep-ref')));
-        setReplaceProdImages(prev => mergePreservingSelection(prev, allImages.filter(i => i.category === 'rep-prod')));
 
     } catch (error: any) {
-        setConnectionStatus('disconnected');
+        // A 401 is handled by the sign-in screen, the backend itself is fine
+        if (error.response?.status !== 401) setConnectionStatus('disconnected');
         console.warn("Fetch failed:", error.message);
     }
-  }, [apiEndpoint, connectionStatus, addLog]);
+  }, [apiEndpoint, connectionStatus, addLog, resolveTask, resolveServerImage, activeProjectId]);
+
+  const fetchDataRef = useRef(fetchData);
+  fetchDataRef.current = fetchData;
+
+  // Switching projects empties the sections; the effect below loads the new project's images and tasks
+  const handleProjectChange = (projectId: string) => {
+    if (projectId === activeProjectIdRef.current) return;
+    activeProjectIdRef.current = projectId;
+    setActiveProjectId(projectId);
+    localStorage.setItem(PROJECT_STORAGE_KEY, projectId);
+    setTasks([]);
+    setBatches([]);
+    setPipelines([]);
+    setTaskDetail(null);
+    setTaskListPage(1);
+    setOutputTasks({});
+    setOutputCursors({});
+    loadedOutputCountsRef.current = {};
+    Object.values(inputImageSetters).forEach(setter => setter([]));
+    setImageCursors({});
+    loadedImageCountsRef.current = {};
+    imageSearchesRef.current = {};
+    setImageSearches({});
+  };
 
-  // Initial Load & Polling Effect
   useEffect(() => {
-    fetchData();
+    if (authUser) fetchDataRef.current();
+  }, [activeProjectId]);
 
+  // Next page of one input category, appended after the loaded ones
+  const handleLoadMoreImages = async (category: string) => {
+    const cursor = imageCursors[category];
+    if (!cursor || loadingImagesRef.current.has(category)) return;
+    loadingImagesRef.current.add(category);
+    try {
+        const q = imageSearchesRef.current[category] || undefined;
+        const res = await axios.get(`${apiEndpoint}/images`, { params: { category, limit: IMAGE_PAGE_SIZE, cursor, project: projectParam, q } });
+        const page: Page<ImageItem> = res.data;
+        inputImageSetters[category](prev => [...prev, ...page.items.map(resolveServerImage).filter(img => !prev.some(p => p.id === img.id))]);
+        loadedImageCountsRef.current[category] = (loadedImageCountsRef.current[category] || 0) + page.items.length;
+        setImageCursors(prev => ({ ...prev, [category]: page.nextCursor }));
+    } catch (e: any) {
+        addLog('ERROR', `Failed to load images: ${e.message}`);
+    } finally {
+        loadingImagesRef.current.delete(category);
+    }
+  };
+
+  // Reloads one input category with a new search; an empty query shows everything again
+  const handleImageSearch = async (category: string, q: string) => {
+    imageSearchesRef.current = { ...imageSearchesRef.current, [category]: q };
+    setImageSearches(imageSearchesRef.current);
+    try {
+        const res = await axios.get(`${apiEndpoint}/images`, { params: { category, limit: IMAGE_PAGE_SIZE, project: projectParam, q: q || undefined } });
+        const page: Page<ImageItem> = res.data;
+        // A newer search for the same category won the race
+        if ((imageSearchesRef.current[category] || '') !== q) return;
+        inputImageSetters[category](prev => mergePreservingSelection(prev, page.items.map(resolveServerImage)));
+        loadedImageCountsRef.current[category] = page.items.length;
+        setImageCursors(prev => ({ ...prev, [category]: page.nextCursor }));
+    } catch (e: any) {
+        addLog('ERROR', `Image search failed: ${e.message}`);
+    }
+  };
+
+  // Puts an edited image in the list of its (possibly new) category and takes it out of the others
+  const applyImageUpdate = (image: ImageItem) => {
+    const resolved = resolveServerImage(image);
+    Object.entries(inputImageSetters).forEach(([category, setter]) => setter(prev => {
+        const existing = prev.find(i => i.id === image.id);
+        if (category !== image.category) return existing ? prev.filter(i => i.id !== image.id) : prev;
+        return existing ? prev.map(i => i.id === image.id ? { ...resolved, selected: i.selected } : i) : [{ ...resolved, selected: false }, ...prev];
+    }));
+  };
+
+  const fetchTaskList = useCallback(async () => {
+    const { status, stage, model, q, from, to, sort } = taskFilters;
+    const params: Record<string, string | number> = { sort, limit: TASK_PAGE_SIZE, offset: (taskListPage - 1) * TASK_PAGE_SIZE, project: projectParam };
+    if (status) params.status = status;
+    if (stage) params.stage = stage;
+    if (model) params.model = model;
+    if (q) params.q = q;
+    // Date inputs are local days; "to" includes the whole day
+    if (from) params.from = new Date(`${from}T00:00:00`).toISOString();
+    if (to) {
+        const end = new Date(`${to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        params.to = end.toISOString();
+    }
+    try {
+        const res = await axios.get(`${apiEndpoint}/tasks`, { params });
+        setTaskList({ ...res.data, items: res.data.items.map(resolveTask) });
+    } catch (e: any) {
+        addLog('ERROR', `Failed to load tasks: ${e.response?.data?.message || e.message}`);
+    }
+  }, [apiEndpoint, taskFilters, taskListPage, resolveTask, addLog, projectParam]);
+
+  // Refetch the open page when filters change, after each refresh and when tasks are created
+  useEffect(() => {
+    if (isTasksOpen) fetchTaskList();
+  }, [isTasksOpen, fetchTaskList, taskListRevision]);
+
+  const handleTaskFiltersChange = useCallback((filters: TaskFilters) => {
+    setTaskFilters(filters);
+    setTaskListPage(1);
+  }, []);
+
+  // Full record with logs for the expanded row
+  const handleExpandTask = async (taskId: string | null) => {
+    setTaskDetail(null);
+    if (!taskId) return;
+    try {
+        const res = await axios.get(`${apiEndpoint}/tasks/${taskId}`);
+        setTaskDetail(resolveTask(res.data));
+    } catch (e: any) {
+        addLog('ERROR', `Failed to load task ${taskId}: ${e.response?.data?.message || e.message}`);
+    }
+  };
+
+  // Distribute outputs of completed tasks to their sections (tasks arrive from polling and the event stream)
+  useEffect(() => {
+    const outputsOf = (stage: WorkflowStage) => (outputTasks[stage] || []).flatMap(t => t.outputImages || []);
+
+    // Update Output Images with Selection Preservation
+    setHairOutputImages(prev => mergePreservingSelection(prev, outputsOf(WorkflowStage.HAIRSTYLE_EXTRACTION)));
+    setAssemblyOutputImages(prev => mergePreservingSelection(prev, outputsOf(WorkflowStage.DOLL_ASSEMBLY)));
+    setReplaceOutputImages(prev => mergePreservingSelection(prev, outputsOf(WorkflowStage.DOLL_REPLACEMENT)));
+  }, [outputTasks]);
+
+  // Outputs of older completed tasks of one section
+  const handleLoadMoreOutputs = async (stage: WorkflowStage) => {
+    const cursor = outputCursors[stage];
+    if (!cursor || loadingImagesRef.current.has(stage)) return;
+    loadingImagesRef.current.add(stage);
+    try {
+        const res = await axios.get(`${apiEndpoint}/tasks`, { params: { status: 'completed', stage, limit: OUTPUT_TASK_PAGE_SIZE, cursor, project: projectParam } });
+        const page: Page<TaskItem> = res.data;
+        loadedOutputCountsRef.current[stage] = (loadedOutputCountsRef.current[stage] || 0) + page.items.length;
+        setOutputTasks(prev => ({ ...prev, [stage]: [...(prev[stage] || []), ...page.items.map(resolveTask).filter(t => !prev[stage]?.some(p => p.id === t.id))] }));
+        setOutputCursors(prev => ({ ...prev, [stage]: page.nextCursor }));
+    } catch (e: any) {
+        addLog('ERROR', `Failed to load outputs: ${e.response?.data?.message || e.message}`);
+    } finally {
+        loadingImagesRef.current.delete(stage);
+    }
+  };
+
+  const handleServerEvent = useCallback((event: ServerEvent) => {
+    // Records of other projects only matter for quota and spend
+    const inActiveProject = (item: { projectId?: string }) => (item.projectId || '') === activeProjectIdRef.current;
+    switch (event.type) {
+      case 'task-created':
+      case 'task-updated': {
+        const task = resolveTask(event.task);
+        if (inActiveProject(task)) {
+            setTasks(prev => upsertById(prev, task));
+            setTaskList(prev => prev && { ...prev, items: prev.items.map(t => t.id === task.id ? task : t) });
+            // Logs arrive separately as task-log events, keep the ones we already have
+            setTaskDetail(prev => prev?.id === task.id ? { ...task, logs: prev.logs } : prev);
+            if (event.type === 'task-created') setTaskListRevision(r => r + 1);
+            if (task.status === 'completed') {
+                const stage = task.params?.stage || task.type.toLowerCase().replace(/ /g, '_');
+                setOutputTasks(prev => ({ ...prev, [stage]: upsertById(prev[stage] || [], task) }));
+            }
+        }
+        // Own tasks use up quota; failed and cancelled ones give it back
+        if (task.owner === authUser?.username && (event.type === 'task-created' || task.status === 'failed' || task.status === 'cancelled')) {
+            scheduleRefetch('quota', fetchQuota);
+        }
+        // Spend changes when a task is priced and when it settles
+        if (event.type === 'task-created' || task.status === 'completed' || task.status === 'failed' || task.status === 'cancelled') {
+            scheduleRefetch('usage', fetchUsage);
+        }
+        break;
+      }
+      case 'task-log':
+        setTaskDetail(prev => prev?.id === event.taskId ? { ...prev, logs: [...(prev.logs || []), event.line] } : prev);
+        break;
+      case 'image-added': {
+        // A searched list only shows matches; the new image appears once the search is cleared
+        const searched = !!event.image.category && !!imageSearchesRef.current[event.image.category];
+        const setter = event.image.category && inActiveProject(event.image) && !searched ? inputImageSetters[event.image.category] : undefined;
+        // The uploading tab already added it optimistically
+        if (setter) setter(prev => prev.some(i => i.id === event.image.id) ? prev : [resolveServerImage(event.image), ...prev]);
+        break;
+      }
+      case 'image-updated':
+        if (inActiveProject(event.image)) applyImageUpdate(event.image);
+        break;
+      case 'image-deleted':
+        Object.values(inputImageSetters).forEach(setter => setter(prev => prev.filter(i => i.id !== event.id)));
+        break;
+      case 'batch-updated':
+        setBatches(prev => upsertById(prev, event.batch));
+        break;
+      case 'pipeline-updated':
+        setPipelines(prev => upsertById(prev, event.pipeline));
+        break;
+      case 'project-updated':
+        setProjects(prev => upsertById(prev, event.project).sort((a, b) => a.name.localeCompare(b.name)));
+        break;
+      case 'project-deleted':
+        setProjects(prev => prev.filter(p => p.id !== event.id));
+        // Its images and tasks moved to the unscoped pool
+        if (activeProjectIdRef.current === event.id) handleProjectChange('');
+        else if (!activeProjectIdRef.current) fetchDataRef.current();
+        break;
+    }
+  }, [resolveTask, resolveServerImage, authUser?.username, fetchQuota, fetchUsage, scheduleRefetch]);
+
+  // Live updates. While the stream is open, polling below is switched off.
+  useEffect(() => {
+    if (!apiEndpoint || !authUser || typeof EventSource === 'undefined') return;
+    const source = new EventSource(`${apiEndpoint}/events`, { withCredentials: true });
+
+    source.onopen = () => {
+        setIsStreamConnected(true);
+        setConnectionStatus('connected');
+        // Catch up on anything missed while disconnected
+        fetchDataRef.current();
+    };
+    // EventSource reconnects by itself; fall back to polling until it does
+    source.onerror = () => setIsStreamConnected(false);
+    source.onmessage = (e) => {
+        try {
+            handleServerEvent(JSON.parse(e.data));
+        } catch (err) {
+            console.warn("Bad server event:", err);
+        }
+    };
+
+    return () => {
+        source.close();
+        setIsStreamConnected(false);
+    };
+  }, [apiEndpoint, authUser?.id, handleServerEvent]);
+
+  // Initial Load & Fallback Polling Effect
+  useEffect(() => {
     // Clear existing poll
     if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
+    if (isStreamConnected || !authUser) return;
+
+    fetchData();
 
     // Setup Polling
     pollIntervalRef.current = setInterval(() => {
@@ -212,8 +624,209 @@ export default function App() {
     return () => {
         if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
     };
-  }, [fetchData, connectionStatus, apiEndpoint]);
+  }, [fetchData, connectionStatus, apiEndpoint, isStreamConnected, authUser?.id]);
+
+  // --- Session ---
+
+  const checkSession = useCallback(async () => {
+    try {
+        const res = await axios.get(`${apiEndpoint}/auth/session`, { timeout: 5000 });
+        setAuthSession(res.data);
+        setConnectionStatus('connected');
+    } catch (e: any) {
+        setAuthSession({ user: null, setupRequired: false });
+        setConnectionStatus('disconnected');
+        console.warn("Session check failed:", e.message);
+    }
+  }, [apiEndpoint]);
+
+  useEffect(() => {
+    setAuthSession(null);
+    checkSession();
+  }, [checkSession]);
+
+  // Keep checking while signed out and unreachable, so the right form shows once the backend is up
+  useEffect(() => {
+    if (authUser || connectionStatus !== 'disconnected') return;
+    const timer = setInterval(checkSession, 5000);
+    return () => clearInterval(timer);
+  }, [authUser, connectionStatus, checkSession]);
+
+  // Any 401 means the session expired or was revoked: back to the sign-in screen
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, (error) => {
+        if (error.response?.status === 401) setAuthSession(prev => prev && { ...prev, user: null });
+        return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, []);
+
+  // Signs in, or creates the first account. Returns an error message for the form.
+  const handleSignIn = async (username: string, password: string): Promise<string | null> => {
+    const route = authSession?.setupRequired ? 'setup' : 'login';
+    try {
+        const res = await axios.post(`${apiEndpoint}/auth/${route}`, { username, password });
+        setAuthSession({ user: res.data, setupRequired: false });
+        setConnectionStatus('connected');
+        addLog('INFO', `Signed in as ${res.data.username}.`);
+        return null;
+    } catch (e: any) {
+        if (!e.response) setConnectionStatus('disconnected');
+        return e.response?.data?.message || e.message;
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+        await axios.post(`${apiEndpoint}/auth/logout`);
+    } catch (e: any) {
+        console.warn("Sign out failed:", e.message);
+    }
+    setIsAccountOpen(false);
+    setAuthSession({ user: null, setupRequired: false });
+  };
+
+  const fetchAccountData = useCallback(async () => {
+    try {
+        const [resUsers, resTokens] = await Promise.all([
+            isAdmin ? axios.get(`${apiEndpoint}/users`) : Promise.resolve({ data: [] }),
+            axios.get(`${apiEndpoint}/tokens`),
+        ]);
+        setUsers(resUsers.data || []);
+        setApiTokens(resTokens.data || []);
+        fetchQuota();
+    } catch (e: any) {
+        addLog('ERROR', `Failed to load accounts: ${e.response?.data?.message || e.message}`);
+    }
+  }, [apiEndpoint, addLog, isAdmin, fetchQuota]);
 
+  useEffect(() => {
+    if (isAccountOpen) fetchAccountData();
+  }, [isAccountOpen, fetchAccountData]);
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
+    try {
+        await axios.post(`${apiEndpoint}/auth/password`, { currentPassword, newPassword });
+        addLog('INFO', 'Password changed.');
+        alert("Password changed.");
+        return true;
+    } catch (e: any) {
+        alert(`Failed to change password: ${e.response?.data?.message || e.message}`);
+        return false;
+    }
+  };
+
+  const handleCreateToken = async (name: string): Promise<string | null> => {
+    try {
+        const res = await axios.post(`${apiEndpoint}/tokens`, { name });
+        setApiTokens(prev => [res.data.record, ...prev]);
+        addLog('INFO', `Created API token "${name}".`);
+        return res.data.token;
+    } catch (e: any) {
+        alert(`Failed to create token: ${e.response?.data?.message || e.message}`);
+        return null;
+    }
+  };
+
+  const handleRevokeToken = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke token "${token.name}"? Scripts using it will stop working.`)) return;
+    try {
+        await axios.delete(`${apiEndpoint}/tokens/${token.id}`);
+        setApiTokens(prev => prev.filter(t => t.id !== token.id));
+        addLog('INFO', `Revoked API token "${token.name}".`);
+    } catch (e: any) {
+        alert(`Failed to revoke token: ${e.response?.data?.message || e.message}`);
+    }
+  };
+
+  const handleCreateUser = async (username: string, password: string, role: Role): Promise<boolean> => {
+    try {
+        const res = await axios.post(`${apiEndpoint}/users`, { username, password, role });
+        setUsers(prev => [...prev, res.data]);
+        addLog('INFO', `Created user ${username}.`);
+        return true;
+    } catch (e: any) {
+        alert(`Failed to create user: ${e.response?.data?.message || e.message}`);
+        return false;
+    }
+  };
+
+  const handleChangeRole = async (user: UserAccount, role: Role) => {
+    try {
+        const res = await axios.patch(`${apiEndpoint}/users/${user.id}`, { role });
+        setUsers(prev => prev.map(u => u.id === user.id ? res.data : u));
+        addLog('INFO', `${user.username} is now ${role}.`);
+    } catch (e: any) {
+        alert(`Failed to change role: ${e.response?.data?.message || e.message}`);
+    }
+  };
+
+  const handleDeleteUser = async (user: UserAccount) => {
+    if (!window.confirm(`Delete user ${user.username}? Their tasks and images are kept.`)) return;
+    try {
+        await axios.delete(`${apiEndpoint}/users/${user.id}`);
+        setUsers(prev => prev.filter(u => u.id !== user.id));
+        addLog('INFO', `Deleted user ${user.username}.`);
+    } catch (e: any) {
+        alert(`Failed to delete user: ${e.response?.data?.message || e.message}`);
+    }
+  };
+
+
+  const handleCreateProject = async (fields: ProjectFields): Promise<boolean> => {
+    try {
+        const res = await axios.post(`${apiEndpoint}/projects`, fields);
+        setProjects(prev => upsertById(prev, res.data).sort((a, b) => a.name.localeCompare(b.name)));
+        addLog('INFO', `Created project ${res.data.name}.`);
+        handleProjectChange(res.data.id);
+        return true;
+    } catch (e: any) {
+        alert(`Failed to create project: ${e.response?.data?.message || e.message}`);
+        return false;
+    }
+  };
+
+  const handleUpdateProject = async (project: Project, fields: Partial<ProjectFields> & { prompts?: ProjectPrompts }): Promise<boolean> => {
+    try {
+        const res = await axios.patch(`${apiEndpoint}/projects/${project.id}`, fields);
+        setProjects(prev => upsertById(prev, res.data).sort((a, b) => a.name.localeCompare(b.name)));
+        addLog('INFO', `Updated project ${res.data.name}.`);
+        return true;
+    } catch (e: any) {
+        alert(`Failed to update project: ${e.response?.data?.message || e.message}`);
+        return false;
+    }
+  };
+
+  const handleDeleteProject = async (project: Project) => {
+    if (!window.confirm(`Delete project ${project.name}? Its images, tasks and output files are kept, outside any project.`)) return;
+    try {
+        await axios.delete(`${apiEndpoint}/projects/${project.id}`);
+        setProjects(prev => prev.filter(p => p.id !== project.id));
+        addLog('INFO', `Deleted project ${project.name}.`);
+        if (activeProjectId === project.id) handleProjectChange('');
+    } catch (e: any) {
+        alert(`Failed to delete project: ${e.response?.data?.message || e.message}`);
+    }
+  };
+
+  // Usage for a custom range of local days; "to" includes the whole day
+  const handleLoadUsage = async (from: string, to: string): Promise<UsageSummary | null> => {
+    const params: Record<string, string> = {};
+    if (from) params.from = new Date(`${from}T00:00:00`).toISOString();
+    if (to) {
+        const end = new Date(`${to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        params.to = end.toISOString();
+    }
+    try {
+        const res = await axios.get(`${apiEndpoint}/usage`, { params });
+        return res.data;
+    } catch (e: any) {
+        alert(`Failed to load usage: ${e.response?.data?.message || e.message}`);
+        return null;
+    }
+  };
 
   // --- Action Handlers ---
 
@@ -226,35 +839,19 @@ export default function App() {
     const formData = new FormData();
     formData.append('file', file);
     formData.append('category', category);
+    if (activeProjectId) formData.append('projectId', activeProjectId);
 
     try {
         const res = await axios.post(`${apiEndpoint}/upload`, formData, {
             headers: { 'Content-Type': 'multipart/form-data' }
         });
         
-        // Helper to resolve immediately for UI
-        const resolveImg = (img: ImageItem) => {
-             if (!img.url) return img;
-             if (img.url.startsWith('http')) return img;
-             let base = apiEndpoint.replace(/\/api$/, '');
-             return { ...img, url: `${base}${img.url}` };
-        };
-
-        const newImg: ImageItem = resolveImg(res.data);
+        const newImg: ImageItem = resolveServerImage(res.data);
         
-        // Optimistic UI Update helpers
-        const updateMap: Record<string, React.Dispatch<React.SetStateAction<ImageItem[]>>> = {
-            'hair-ref': setHairRefImages,
-            'hair-mannequin': setHairMannequinImages,
-            'asm-hair': setAssemblyHairImages,
-            'asm-body': setAssemblyBodyImages,
-            'asm-cloth': setAssemblyClothImages,
-            'rep-ref': setReplaceRefImages,
-            'rep-prod': setReplaceProdImages
-        };
         // For optimistic upload, we default selected to false anyway, and since we are appending to prev, 
-        // standard state update is fine. Selection preservation is handled in fetchData polling.
-        if (updateMap[category]) updateMap[category](prev => [newImg, ...prev]);
+        // standard state update is fine. The image-added event for it is ignored as a duplicate.
+        const setter = inputImageSetters[category];
+        if (setter) setter(prev => prev.some(i => i.id === newImg.id) ? prev : [newImg, ...prev]);
         
         addLog('INFO', `Uploaded ${file.name}`);
     } catch (e: any) {
@@ -263,8 +860,13 @@ export default function App() {
     }
   };
 
-  const handleDeleteImages = async (itemsToDelete: ImageItem[], category: string) => {
+  const handleDeleteImages = async (selectedItems: ImageItem[], category: string) => {
     if (connectionStatus === 'disconnected') return;
+    // The server refuses the rest; say so instead of letting them reappear
+    const itemsToDelete = selectedItems.filter(img => canModify(img.owner));
+    if (itemsToDelete.length < selectedItems.length) {
+        addLog('WARN', `Skipped ${selectedItems.length - itemsToDelete.length} image(s) uploaded by other users.`);
+    }
     const updateState = (setter: React.Dispatch<React.SetStateAction<ImageItem[]>>) => {
         setter(prev => prev.filter(img => !itemsToDelete.some(d => d.id === img.id)));
     };
@@ -287,10 +889,40 @@ export default function App() {
     }
   };
 
+  const handleUpdateImage = async (image: ImageItem, updates: ImageUpdate): Promise<boolean> => {
+    try {
+        const res = await axios.patch(`${apiEndpoint}/images/${image.id}`, updates);
+        applyImageUpdate(res.data);
+        addLog('INFO', `Updated image ${res.data.name}.`);
+        return true;
+    } catch (e: any) {
+        alert(`Failed to update image: ${e.response?.data?.message || e.message}`);
+        return false;
+    }
+  };
+
+  const handleMoveImages = async (selectedItems: ImageItem[], category: string) => {
+    if (connectionStatus === 'disconnected') return;
+    const itemsToMove = selectedItems.filter(img => canModify(img.owner));
+    if (itemsToMove.length < selectedItems.length) {
+        addLog('WARN', `Skipped ${selectedItems.length - itemsToMove.length} image(s) uploaded by other users.`);
+    }
+    for (const img of itemsToMove) {
+        try {
+            const res = await axios.patch(`${apiEndpoint}/images/${img.id}`, { category });
+            applyImageUpdate(res.data);
+            addLog('INFO', `Moved ${img.name} to ${category}.`);
+        } catch (e: any) {
+            addLog('ERROR', `Failed to move ${img.name}: ${e.response?.data?.message || e.message}`);
+        }
+    }
+  };
+
   const handleSaveSettings = async (newSettings: AppSettings) => {
     try {
-        await axios.post(`${apiEndpoint}/config`, newSettings);
-        setSettings(newSettings);
+        // Secrets are write-only: keep the server's masked copy, not the typed values
+        const res = await axios.post(`${apiEndpoint}/config`, newSettings);
+        setSettings(res.data.config);
         addLog('INFO', 'Configuration saved.');
     } catch (e: any) {
         addLog('ERROR', `Failed to save config: ${e.message}`);
@@ -300,6 +932,14 @@ export default function App() {
 
   const handleSavePrompt = async (newPromptText: string) => {
     if (!activePromptSection) return;
+    if (activeProject) {
+        // The global prompt unchanged, or nothing at all, means no override
+        const field = STAGE_PROMPT_FIELDS[activePromptSection];
+        const override = newPromptText === settings[field] ? "" : newPromptText;
+        await handleUpdateProject(activeProject, { prompts: { ...activeProject.prompts, [field]: override } });
+        setActivePromptSection(null);
+        return;
+    }
     let updatedSettings = { ...settings };
     if (activePromptSection === 'hairstyle') updatedSettings.promptHairstyle = newPromptText;
     else if (activePromptSection === 'assembly') updatedSettings.promptAssembly = newPromptText;
@@ -310,6 +950,7 @@ export default function App() {
   };
 
   const getActivePromptInitialValue = () => {
+    if (activePromptSection && activeProject) return getStagePrompt(STAGE_PROMPT_STAGES[activePromptSection]);
     if (activePromptSection === 'hairstyle') return settings.promptHairstyle;
     if (activePromptSection === 'assembly') return settings.promptAssembly;
     if (activePromptSection === 'replacement') return settings.promptReplacement;
@@ -323,67 +964,204 @@ export default function App() {
     return "";
   };
 
-  const handleGenerate = async (stage: WorkflowStage, model: string, size: string, aspectRatio: string, selectedInputs: ImageItem[]) => {
+  // Tightest quota for the model, or undefined when no rule applies
+  const quotaRemainingFor = (model: string): number | undefined => {
+    const matching = quota.filter(q => !q.model || q.model === model);
+    return matching.length > 0 ? Math.min(...matching.map(q => q.remaining)) : undefined;
+  };
+
+  // One selected image per slot submits a single task; more than one submits a batch
+  const handleGenerate = async (stage: WorkflowStage, model: string, size: string, aspectRatio: string, slotSelections: ImageItem[][], batchMode: BatchMode, variations: number, forceRegenerate: boolean) => {
     if (connectionStatus === 'disconnected') {
         alert("Backend disconnected. Please check if the server is running on port 3001.");
         setIsSettingsOpen(true);
         return;
     }
-    if (!settings.geekaiApiKey) {
+    const provider = settings.modelProviders?.[model] || 'geekai';
+    if (provider === 'geekai' && !settings.geekaiApiKey) {
         alert("Please configure API Key in settings first.");
         setIsSettingsOpen(true);
         return;
     }
-    const req: GenerateRequest = { stage, model, size, aspect_ratio: aspectRatio, input_images: selectedInputs, settings };
+    if (submittingStagesRef.current.has(stage)) return;
+    submittingStagesRef.current.add(stage);
+    const selectedInputs = slotSelections.flat();
+    const isBatch = slotSelections.some(s => s.length > 1);
+    // Same key on every resend, so a retry after a dropped response cannot start the work twice
+    const idempotencyKey = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const post = async (url: string, body: any, retries = 2): Promise<any> => {
+        try {
+            return await axios.post(url, body);
+        } catch (e: any) {
+            if (e.response || retries === 0) throw e;
+            return post(url, body, retries - 1);
+        }
+    };
     try {
-        await axios.post(`${apiEndpoint}/generate`, req);
-        addLog('INFO', `Started ${stage} task.`);
+        if (isBatch) {
+            const req: BatchRequest = { stage, model, size, aspect_ratio: aspectRatio, input_images: selectedInputs, mode: batchMode, variations, idempotencyKey, forceRegenerate, projectId: activeProjectId || undefined };
+            const res = await post(`${apiEndpoint}/generate/batch`, req);
+            addLog('INFO', `Started ${stage} batch with ${res.data.tasks.length} tasks.`);
+            const duplicates = res.data.tasks.filter((t: TaskItem) => t.duplicateOf).length;
+            if (duplicates > 0) addLog('WARN', `${duplicates} ${stage} task(s) match requests that are still running.`);
+        } else {
+            const req: GenerateRequest = { stage, model, size, aspect_ratio: aspectRatio, input_images: selectedInputs, variations, idempotencyKey, forceRegenerate, projectId: activeProjectId || undefined };
+            const res = await post(`${apiEndpoint}/generate`, req);
+            addLog('INFO', `Started ${stage} task.`);
+            if (res.data.duplicateOf) addLog('WARN', `${stage} task matches ${res.data.duplicateOf}, which is still running.`);
+        }
         setIsTasksOpen(true);
     } catch (e: any) {
         const msg = e.response?.data?.message || e.message;
         alert(`Failed to start generation: ${msg}`);
         addLog('ERROR', `Generation failed: ${msg}`);
+    } finally {
+        submittingStagesRef.current.delete(stage);
+    }
+  };
+
+  // Dry run: shows the payload the first task of this selection would send
+  const handlePreview = async (stage: WorkflowStage, model: string, size: string, aspectRatio: string, slotSelections: ImageItem[][], variations: number) => {
+    if (slotSelections.some(s => s.length === 0)) return alert("Select at least one image for every input first.");
+    try {
+        const req: GenerateRequest = { stage, model, size, aspect_ratio: aspectRatio, input_images: slotSelections.map(s => s[0]), variations, projectId: activeProjectId || undefined };
+        const res = await axios.post(`${apiEndpoint}/generate/preview`, req);
+        setPreview(res.data);
+    } catch (e: any) {
+        const msg = e.response?.data?.message || e.message;
+        alert(`Preview failed: ${msg}`);
+    }
+  };
+
+  const handleCancelTask = async (task: TaskItem) => {
+    try {
+        await axios.post(`${apiEndpoint}/tasks/${task.id}/cancel`);
+        setTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: 'cancelled' } : t));
+        addLog('INFO', `Cancelled task ${task.id}.`);
+    } catch (e: any) {
+        const msg = e.response?.data?.message || e.message;
+        addLog('ERROR', `Failed to cancel ${task.id}: ${msg}`);
+    }
+  };
+
+  const handleRetryTask = async (task: TaskItem) => {
+    try {
+        const res = await axios.post(`${apiEndpoint}/tasks/${task.id}/retry`);
+        addLog('INFO', `Retrying ${task.id} as ${res.data.id}.`);
+        fetchData();
+    } catch (e: any) {
+        const msg = e.response?.data?.message || e.message;
+        alert(`Failed to retry task: ${msg}`);
+        addLog('ERROR', `Retry failed: ${msg}`);
+    }
+  };
+
+  const handleRemixTask = async (task: TaskItem, overrides: RemixOverrides) => {
+    try {
+        const res = await axios.post(`${apiEndpoint}/tasks/${task.id}/remix`, overrides);
+        addLog('INFO', `Remixed ${task.id} as ${res.data.id}.`);
+        fetchData();
+    } catch (e: any) {
+        const msg = e.response?.data?.message || e.message;
+        alert(`Failed to remix task: ${msg}`);
+        addLog('ERROR', `Remix failed: ${msg}`);
     }
   };
 
+  const handleRunPipeline = async (steps: PipelineStepRequest[], inputImages: ImageItem[]) => {
+    if (connectionStatus === 'disconnected') {
+        alert("Backend disconnected. Please check if the server is running on port 3001.");
+        setIsSettingsOpen(true);
+        return;
+    }
+    if (steps.some(step => (settings.modelProviders?.[step.model] || 'geekai') === 'geekai') && !settings.geekaiApiKey) {
+        alert("Please configure API Key in settings first.");
+        setIsSettingsOpen(true);
+        return;
+    }
+    try {
+        const req: PipelineRequest = { steps, input_images: inputImages, projectId: activeProjectId || undefined };
+        const res = await axios.post(`${apiEndpoint}/pipelines`, req);
+        addLog('INFO', `Started pipeline ${res.data.name} (${res.data.id}).`);
+        setIsTasksOpen(true);
+        fetchData();
+    } catch (e: any) {
+        const msg = e.response?.data?.message || e.message;
+        alert(`Failed to start pipeline: ${msg}`);
+        addLog('ERROR', `Pipeline failed: ${msg}`);
+    }
+  };
+
+  // The active project's override, else the global prompt
+  const getStagePrompt = (stage?: WorkflowStage) => {
+    const prompts = activeProject?.prompts || {};
+    if (stage === WorkflowStage.HAIRSTYLE_EXTRACTION) return prompts.promptHairstyle || settings.promptHairstyle;
+    if (stage === WorkflowStage.DOLL_ASSEMBLY) return prompts.promptAssembly || settings.promptAssembly;
+    if (stage === WorkflowStage.DOLL_REPLACEMENT) return prompts.promptReplacement || settings.promptReplacement;
+    return "";
+  };
+
   // Section State
-  const [hairModel, setHairModel] = useState<AIModel>(AIModel.NANO_BANANA);
-  const [hairSize, setHairSize] = useState<string>(MODEL_CONFIGS[AIModel.NANO_BANANA].defaultSize);
-  const [hairAspectRatio, setHairAspectRatio] = useState<string>(MODEL_CONFIGS[AIModel.NANO_BANANA].defaultAspectRatio);
+  const [hairModel, setHairModel] = useState<string>(DEFAULT_MODEL.id);
+  const [hairSize, setHairSize] = useState<string>(DEFAULT_MODEL.size);
+  const [hairAspectRatio, setHairAspectRatio] = useState<string>(DEFAULT_MODEL.aspectRatio);
   const [activeHairTab, setActiveHairTab] = useState<'reference' | 'mannequin'>('reference');
+  const [hairBatchMode, setHairBatchMode] = useState<BatchMode>('matrix');
+  const [hairVariations, setHairVariations] = useState(1);
+  const [hairForceRegenerate, setHairForceRegenerate] = useState(false);
+  const hairSelections = [hairRefImages.filter(i => i.selected), hairMannequinImages.filter(i => i.selected)];
 
   const onGenerateHair = () => {
-      const ref = hairRefImages.find(i => i.selected);
-      const man = hairMannequinImages.find(i => i.selected);
-      if(!ref || !man) return alert("Select 1 Reference and 1 Mannequin image.");
-      handleGenerate(WorkflowStage.HAIRSTYLE_EXTRACTION, hairModel, hairSize, hairAspectRatio, [ref, man]);
+      if (hairSelections.some(s => s.length === 0)) return alert("Select at least 1 Reference and 1 Mannequin image.");
+      handleGenerate(WorkflowStage.HAIRSTYLE_EXTRACTION, hairModel, hairSize, hairAspectRatio, hairSelections, hairBatchMode, hairVariations, hairForceRegenerate);
   };
 
-  const [assemblyModel, setAssemblyModel] = useState<AIModel>(AIModel.NANO_BANANA);
-  const [assemblySize, setAssemblySize] = useState<string>(MODEL_CONFIGS[AIModel.NANO_BANANA].defaultSize);
-  const [assemblyAspectRatio, setAssemblyAspectRatio] = useState<string>(MODEL_CONFIGS[AIModel.NANO_BANANA].defaultAspectRatio);
+  const [assemblyModel, setAssemblyModel] = useState<string>(DEFAULT_MODEL.id);
+  const [assemblySize, setAssemblySize] = useState<string>(DEFAULT_MODEL.size);
+  const [assemblyAspectRatio, setAssemblyAspectRatio] = useState<string>(DEFAULT_MODEL.aspectRatio);
   const [activeAssemblyTab, setActiveAssemblyTab] = useState<'hair' | 'body' | 'cloth'>('hair');
+  const [assemblyBatchMode, setAssemblyBatchMode] = useState<BatchMode>('matrix');
+  const [assemblyVariations, setAssemblyVariations] = useState(1);
+  const [assemblyForceRegenerate, setAssemblyForceRegenerate] = useState(false);
+  const assemblySelections = [assemblyHairImages.filter(i => i.selected), assemblyBodyImages.filter(i => i.selected), assemblyClothImages.filter(i => i.selected)];
 
   const onGenerateAssembly = () => {
-      const hair = assemblyHairImages.find(i => i.selected);
-      const body = assemblyBodyImages.find(i => i.selected);
-      const cloth = assemblyClothImages.find(i => i.selected);
-      if(!hair || !body || !cloth) return alert("Select 1 Hair, 1 Body, and 1 Cloth image.");
-      handleGenerate(WorkflowStage.DOLL_ASSEMBLY, assemblyModel, assemblySize, assemblyAspectRatio, [hair, body, cloth]);
+      if (assemblySelections.some(s => s.length === 0)) return alert("Select at least 1 Hair, 1 Body, and 1 Cloth image.");
+      handleGenerate(WorkflowStage.DOLL_ASSEMBLY, assemblyModel, assemblySize, assemblyAspectRatio, assemblySelections, assemblyBatchMode, assemblyVariations, assemblyForceRegenerate);
   };
 
-  const [replaceModel, setReplaceModel] = useState<AIModel>(AIModel.NANO_BANANA);
-  const [replaceSize, setReplaceSize] = useState<string>(MODEL_CONFIGS[AIModel.NANO_BANANA].defaultSize);
-  const [replaceAspectRatio, setReplaceAspectRatio] = useState<string>(MODEL_CONFIGS[AIModel.NANO_BANANA].defaultAspectRatio);
+  const [replaceModel, setReplaceModel] = useState<string>(DEFAULT_MODEL.id);
+  const [replaceSize, setReplaceSize] = useState<string>(DEFAULT_MODEL.size);
+  const [replaceAspectRatio, setReplaceAspectRatio] = useState<string>(DEFAULT_MODEL.aspectRatio);
   const [activeReplaceTab, setActiveReplaceTab] = useState<'reference' | 'product'>('reference');
+  const [replaceBatchMode, setReplaceBatchMode] = useState<BatchMode>('matrix');
+  const [replaceVariations, setReplaceVariations] = useState(1);
+  const [replaceForceRegenerate, setReplaceForceRegenerate] = useState(false);
+  const replaceSelections = [replaceRefImages.filter(i => i.selected), replaceProdImages.filter(i => i.selected)];
 
   const onGenerateReplace = () => {
-      const ref = replaceRefImages.find(i => i.selected);
-      const prod = replaceProdImages.find(i => i.selected);
-      if(!ref || !prod) return alert("Select 1 Reference and 1 Product image.");
-      handleGenerate(WorkflowStage.DOLL_REPLACEMENT, replaceModel, replaceSize, replaceAspectRatio, [ref, prod]);
+      if (replaceSelections.some(s => s.length === 0)) return alert("Select at least 1 Reference and 1 Product image.");
+      handleGenerate(WorkflowStage.DOLL_REPLACEMENT, replaceModel, replaceSize, replaceAspectRatio, replaceSelections, replaceBatchMode, replaceVariations, replaceForceRegenerate);
   };
 
+  // Today's row of the month-to-date summary, for the burn rate in the header
+  const now = new Date();
+  const todayKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  const spentToday = usage?.byDay.find(row => row.key === todayKey)?.cost || 0;
+
+  if (!authUser) {
+    return (
+      <LoginScreen
+        checking={authSession === null}
+        setupRequired={!!authSession?.setupRequired}
+        connectionFailed={connectionStatus === 'disconnected'}
+        apiEndpoint={apiEndpoint}
+        onApiEndpointChange={updateApiEndpoint}
+        onSubmit={handleSignIn}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-slate-100 pb-20">
       <header className="sticky top-0 z-40 bg-white/80 backdrop-blur-md border-b border-slate-200 shadow-sm">
@@ -410,14 +1188,41 @@ export default function App() {
                         <span>Backend Disconnected</span>
                     </div>
                 )}
-                <div className="hidden sm:flex flex-col items-end mr-2">
-                    <span className="text-xs font-semibold text-slate-700">Project Workspace</span>
-                    <span className="text-[10px] text-slate-400 font-mono max-w-[150px] truncate">{settings.workingDirectory}</span>
+                <div className="hidden sm:flex items-center gap-1.5 mr-2">
+                    <div className="flex flex-col items-end">
+                        <select
+                            value={activeProjectId}
+                            onChange={(e) => handleProjectChange(e.target.value)}
+                            className="text-xs font-semibold text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600 text-right max-w-[180px]"
+                            title="Active project"
+                        >
+                            <option value="">未分组 (No project)</option>
+                            {projects.map(p => <option key={p.id} value={p.id}>{p.name}{p.sku ? ` · ${p.sku}` : ''}</option>)}
+                        </select>
+                        <span className="text-[10px] text-slate-400 font-mono max-w-[180px] truncate" title="Output folder">
+                            {activeProject ? `${settings.workingDirectory.replace(/\/$/, '')}/${activeProject.folder}` : settings.workingDirectory}
+                        </span>
+                    </div>
+                    <button onClick={() => setIsProjectsOpen(true)} className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="Projects"><FolderKanban size={18} /></button>
                 </div>
+                {usage && (
+                    <button
+                        onClick={() => setIsUsageOpen(true)}
+                        className={`hidden md:flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${usage.budget?.remaining === 0 ? 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100' : 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100'}`}
+                        title="Spend today / this month; click for details"
+                    >
+                        <Coins size={14} />
+                        <span className="font-mono">{usage.currency}{spentToday} / {usage.currency}{usage.total}</span>
+                        {usage.budget && <span className="font-normal opacity-75">budget {usage.budget.spent}/{usage.budget.limit}</span>}
+                    </button>
+                )}
                 <div className="h-8 w-px bg-slate-200 mx-1"></div>
+                 <button onClick={() => setIsAccountOpen(true)} className="flex items-center gap-1.5 p-2 text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="Account"><CircleUser size={20} /><span className="hidden sm:inline text-sm font-medium">{authUser.username}</span></button>
                  <button onClick={() => setIsLogsOpen(true)} className="p-2 text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="System Logs"><FileText size={20} /></button>
+                 {canGenerate && <button onClick={() => setIsPipelineOpen(true)} className="p-2 text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="Run Pipeline"><Workflow size={20} /></button>}
                  <button onClick={() => setIsTasksOpen(true)} className="p-2 text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="Task Queue"><List size={20} /></button>
                 <button onClick={() => setIsSettingsOpen(true)} className="p-2 text-slate-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all" title="System Settings"><Settings size={20} /></button>
+                <button onClick={handleSignOut} className="p-2 text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all" title="Sign Out"><LogOut size={20} /></button>
             </div>
         </div>
       </header>
@@ -427,6 +1232,7 @@ export default function App() {
             stepNumber={1}
             title="发型提取 (Hairstyle Extraction)"
             description="Upload source images to extract hairstyle features."
+            models={models}
             selectedModel={hairModel}
             onModelChange={setHairModel}
             selectedSize={hairSize}
@@ -435,6 +1241,16 @@ export default function App() {
             onAspectRatioChange={setHairAspectRatio}
             onPromptClick={() => setActivePromptSection('hairstyle')}
             onGenerate={onGenerateHair}
+            onPreview={() => handlePreview(WorkflowStage.HAIRSTYLE_EXTRACTION, hairModel, hairSize, hairAspectRatio, hairSelections, hairVariations)}
+            batchMode={hairBatchMode}
+            onBatchModeChange={setHairBatchMode}
+            variations={hairVariations}
+            onVariationsChange={setHairVariations}
+            forceRegenerate={hairForceRegenerate}
+            onForceRegenerateChange={setHairForceRegenerate}
+            taskCount={countBatchTasks(hairSelections.map(s => s.length), hairBatchMode)}
+            canGenerate={canGenerate}
+            quotaRemaining={quotaRemainingFor(hairModel)}
         >
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-[500px]">
                 <div className="flex flex-col h-full bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
@@ -443,11 +1259,11 @@ export default function App() {
                         <button onClick={() => setActiveHairTab('mannequin')} className={`flex-1 py-3 px-4 text-sm font-semibold flex items-center justify-center gap-2 transition-colors ${activeHairTab === 'mannequin' ? 'bg-white text-blue-600 border-t-2 border-t-blue-600' : 'text-slate-500 hover:text-slate-700'}`}><User size={16} /> 假人模特</button>
                     </div>
                     <div className="flex-1 p-1 overflow-hidden">
-                        {activeHairTab === 'reference' && <ImageGrid title="发型参考素材" images={hairRefImages} setImages={setHairRefImages} allowUpload={true} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="hair-ref" onDelete={(items) => handleDeleteImages(items, 'hair-ref')} />}
-                        {activeHairTab === 'mannequin' && <ImageGrid title="假人模特素材" images={hairMannequinImages} setImages={setHairMannequinImages} allowUpload={true} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="hair-mannequin" onDelete={(items) => handleDeleteImages(items, 'hair-mannequin')} />}
+                        {activeHairTab === 'reference' && <ImageGrid title="发型参考素材" images={hairRefImages} setImages={setHairRefImages} allowUpload={canGenerate} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="hair-ref" onDelete={canGenerate ? (items) => handleDeleteImages(items, 'hair-ref') : undefined} hasMore={!!imageCursors['hair-ref']} onLoadMore={() => handleLoadMoreImages('hair-ref')} onUpdate={canGenerate ? handleUpdateImage : undefined} canEdit={(img) => canModify(img.owner)} moveTargets={IMAGE_CATEGORIES} onMove={canGenerate ? handleMoveImages : undefined} search={imageSearches['hair-ref'] || ''} onSearchChange={(q) => handleImageSearch('hair-ref', q)} />}
+                        {activeHairTab === 'mannequin' && <ImageGrid title="假人模特素材" images={hairMannequinImages} setImages={setHairMannequinImages} allowUpload={canGenerate} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="hair-mannequin" onDelete={canGenerate ? (items) => handleDeleteImages(items, 'hair-mannequin') : undefined} hasMore={!!imageCursors['hair-mannequin']} onLoadMore={() => handleLoadMoreImages('hair-mannequin')} onUpdate={canGenerate ? handleUpdateImage : undefined} canEdit={(img) => canModify(img.owner)} moveTargets={IMAGE_CATEGORIES} onMove={canGenerate ? handleMoveImages : undefined} search={imageSearches['hair-mannequin'] || ''} onSearchChange={(q) => handleImageSearch('hair-mannequin', q)} />}
                     </div>
                 </div>
-                <ImageGrid title="输出结果 (Output)" images={hairOutputImages} setImages={setHairOutputImages} allowUpload={false} onImageClick={setLightboxImage} />
+                <ImageGrid title="输出结果 (Output)" images={hairOutputImages} setImages={setHairOutputImages} allowUpload={false} onImageClick={setLightboxImage} hasMore={!!outputCursors[WorkflowStage.HAIRSTYLE_EXTRACTION]} onLoadMore={() => handleLoadMoreOutputs(WorkflowStage.HAIRSTYLE_EXTRACTION)} />
             </div>
         </SectionWrapper>
 
@@ -455,6 +1271,7 @@ export default function App() {
             stepNumber={2}
             title="娃娃组装 (Doll Assembly)"
             description="Combine Hairstyle, Body, and Clothes to assemble the doll."
+            models={models}
             selectedModel={assemblyModel}
             onModelChange={setAssemblyModel}
             selectedSize={assemblySize}
@@ -463,6 +1280,16 @@ export default function App() {
             onAspectRatioChange={setAssemblyAspectRatio}
             onPromptClick={() => setActivePromptSection('assembly')}
             onGenerate={onGenerateAssembly}
+            onPreview={() => handlePreview(WorkflowStage.DOLL_ASSEMBLY, assemblyModel, assemblySize, assemblyAspectRatio, assemblySelections, assemblyVariations)}
+            batchMode={assemblyBatchMode}
+            onBatchModeChange={setAssemblyBatchMode}
+            variations={assemblyVariations}
+            onVariationsChange={setAssemblyVariations}
+            forceRegenerate={assemblyForceRegenerate}
+            onForceRegenerateChange={setAssemblyForceRegenerate}
+            taskCount={countBatchTasks(assemblySelections.map(s => s.length), assemblyBatchMode)}
+            canGenerate={canGenerate}
+            quotaRemaining={quotaRemainingFor(assemblyModel)}
         >
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-[600px]">
                 <div className="flex flex-col h-full bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
@@ -472,12 +1299,12 @@ export default function App() {
                         <button onClick={() => setActiveAssemblyTab('cloth')} className={`flex-1 py-3 px-4 text-sm font-semibold flex items-center justify-center gap-2 transition-colors ${activeAssemblyTab === 'cloth' ? 'bg-white text-blue-600 border-t-2 border-t-blue-600' : 'text-slate-500 hover:text-slate-700'}`}><Shirt size={16} /> 衣服</button>
                     </div>
                     <div className="flex-1 p-1 overflow-hidden">
-                        {activeAssemblyTab === 'hair' && <ImageGrid title="发型素材" images={assemblyHairImages} setImages={setAssemblyHairImages} allowUpload={true} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="asm-hair" onDelete={(items) => handleDeleteImages(items, 'asm-hair')} />}
-                        {activeAssemblyTab === 'body' && <ImageGrid title="本体素材" images={assemblyBodyImages} setImages={setAssemblyBodyImages} allowUpload={true} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="asm-body" onDelete={(items) => handleDeleteImages(items, 'asm-body')} />}
-                        {activeAssemblyTab === 'cloth' && <ImageGrid title="衣服素材" images={assemblyClothImages} setImages={setAssemblyClothImages} allowUpload={true} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="asm-cloth" onDelete={(items) => handleDeleteImages(items, 'asm-cloth')} />}
+                        {activeAssemblyTab === 'hair' && <ImageGrid title="发型素材" images={assemblyHairImages} setImages={setAssemblyHairImages} allowUpload={canGenerate} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="asm-hair" onDelete={canGenerate ? (items) => handleDeleteImages(items, 'asm-hair') : undefined} hasMore={!!imageCursors['asm-hair']} onLoadMore={() => handleLoadMoreImages('asm-hair')} onUpdate={canGenerate ? handleUpdateImage : undefined} canEdit={(img) => canModify(img.owner)} moveTargets={IMAGE_CATEGORIES} onMove={canGenerate ? handleMoveImages : undefined} search={imageSearches['asm-hair'] || ''} onSearchChange={(q) => handleImageSearch('asm-hair', q)} />}
+                        {activeAssemblyTab === 'body' && <ImageGrid title="本体素材" images={assemblyBodyImages} setImages={setAssemblyBodyImages} allowUpload={canGenerate} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="asm-body" onDelete={canGenerate ? (items) => handleDeleteImages(items, 'asm-body') : undefined} hasMore={!!imageCursors['asm-body']} onLoadMore={() => handleLoadMoreImages('asm-body')} onUpdate={canGenerate ? handleUpdateImage : undefined} canEdit={(img) => canModify(img.owner)} moveTargets={IMAGE_CATEGORIES} onMove={canGenerate ? handleMoveImages : undefined} search={imageSearches['asm-body'] || ''} onSearchChange={(q) => handleImageSearch('asm-body', q)} />}
+                        {activeAssemblyTab === 'cloth' && <ImageGrid title="衣服素材" images={assemblyClothImages} setImages={setAssemblyClothImages} allowUpload={canGenerate} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="asm-cloth" onDelete={canGenerate ? (items) => handleDeleteImages(items, 'asm-cloth') : undefined} hasMore={!!imageCursors['asm-cloth']} onLoadMore={() => handleLoadMoreImages('asm-cloth')} onUpdate={canGenerate ? handleUpdateImage : undefined} canEdit={(img) => canModify(img.owner)} moveTargets={IMAGE_CATEGORIES} onMove={canGenerate ? handleMoveImages : undefined} search={imageSearches['asm-cloth'] || ''} onSearchChange={(q) => handleImageSearch('asm-cloth', q)} />}
                     </div>
                 </div>
-                <ImageGrid title="组装结果 (Output)" images={assemblyOutputImages} setImages={setAssemblyOutputImages} allowUpload={false} onImageClick={setLightboxImage} />
+                <ImageGrid title="组装结果 (Output)" images={assemblyOutputImages} setImages={setAssemblyOutputImages} allowUpload={false} onImageClick={setLightboxImage} hasMore={!!outputCursors[WorkflowStage.DOLL_ASSEMBLY]} onLoadMore={() => handleLoadMoreOutputs(WorkflowStage.DOLL_ASSEMBLY)} />
             </div>
         </SectionWrapper>
 
@@ -485,6 +1312,7 @@ export default function App() {
             stepNumber={3}
             title="娃娃替换 (Doll Replacement)"
             description="Replace specific elements using Reference and Product images."
+            models={models}
             selectedModel={replaceModel}
             onModelChange={setReplaceModel}
             selectedSize={replaceSize}
@@ -493,6 +1321,16 @@ export default function App() {
             onAspectRatioChange={setReplaceAspectRatio}
             onPromptClick={() => setActivePromptSection('replacement')}
             onGenerate={onGenerateReplace}
+            onPreview={() => handlePreview(WorkflowStage.DOLL_REPLACEMENT, replaceModel, replaceSize, replaceAspectRatio, replaceSelections, replaceVariations)}
+            batchMode={replaceBatchMode}
+            onBatchModeChange={setReplaceBatchMode}
+            variations={replaceVariations}
+            onVariationsChange={setReplaceVariations}
+            forceRegenerate={replaceForceRegenerate}
+            onForceRegenerateChange={setReplaceForceRegenerate}
+            taskCount={countBatchTasks(replaceSelections.map(s => s.length), replaceBatchMode)}
+            canGenerate={canGenerate}
+            quotaRemaining={quotaRemainingFor(replaceModel)}
         >
              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-[500px]">
                 <div className="flex flex-col h-full bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
@@ -501,11 +1339,11 @@ export default function App() {
                         <button onClick={() => setActiveReplaceTab('product')} className={`flex-1 py-3 px-4 text-sm font-semibold flex items-center justify-center gap-2 transition-colors ${activeReplaceTab === 'product' ? 'bg-white text-blue-600 border-t-2 border-t-blue-600' : 'text-slate-500 hover:text-slate-700'}`}><ImageIcon size={16} /> 产品图</button>
                     </div>
                     <div className="flex-1 p-1 overflow-hidden">
-                        {activeReplaceTab === 'reference' && <ImageGrid title="对标图素材" images={replaceRefImages} setImages={setReplaceRefImages} allowUpload={true} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="rep-ref" onDelete={(items) => handleDeleteImages(items, 'rep-ref')} />}
-                        {activeReplaceTab === 'product' && <ImageGrid title="产品图素材" images={replaceProdImages} setImages={setReplaceProdImages} allowUpload={true} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="rep-prod" onDelete={(items) => handleDeleteImages(items, 'rep-prod')} />}
+                        {activeReplaceTab === 'reference' && <ImageGrid title="对标图素材" images={replaceRefImages} setImages={setReplaceRefImages} allowUpload={canGenerate} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="rep-ref" onDelete={canGenerate ? (items) => handleDeleteImages(items, 'rep-ref') : undefined} hasMore={!!imageCursors['rep-ref']} onLoadMore={() => handleLoadMoreImages('rep-ref')} onUpdate={canGenerate ? handleUpdateImage : undefined} canEdit={(img) => canModify(img.owner)} moveTargets={IMAGE_CATEGORIES} onMove={canGenerate ? handleMoveImages : undefined} search={imageSearches['rep-ref'] || ''} onSearchChange={(q) => handleImageSearch('rep-ref', q)} />}
+                        {activeReplaceTab === 'product' && <ImageGrid title="产品图素材" images={replaceProdImages} setImages={setReplaceProdImages} allowUpload={canGenerate} onImageClick={setLightboxImage} onUploadFile={handleUploadFile} category="rep-prod" onDelete={canGenerate ? (items) => handleDeleteImages(items, 'rep-prod') : undefined} hasMore={!!imageCursors['rep-prod']} onLoadMore={() => handleLoadMoreImages('rep-prod')} onUpdate={canGenerate ? handleUpdateImage : undefined} canEdit={(img) => canModify(img.owner)} moveTargets={IMAGE_CATEGORIES} onMove={canGenerate ? handleMoveImages : undefined} search={imageSearches['rep-prod'] || ''} onSearchChange={(q) => handleImageSearch('rep-prod', q)} />}
                     </div>
                 </div>
-                <ImageGrid title="替换结果 (Output)" images={replaceOutputImages} setImages={setReplaceOutputImages} allowUpload={false} onImageClick={setLightboxImage} />
+                <ImageGrid title="替换结果 (Output)" images={replaceOutputImages} setImages={setReplaceOutputImages} allowUpload={false} onImageClick={setLightboxImage} hasMore={!!outputCursors[WorkflowStage.DOLL_REPLACEMENT]} onLoadMore={() => handleLoadMoreOutputs(WorkflowStage.DOLL_REPLACEMENT)} />
             </div>
         </SectionWrapper>
       </main>
@@ -515,12 +1353,83 @@ export default function App() {
         onClose={() => setIsSettingsOpen(false)} 
         onSave={handleSaveSettings} 
         currentSettings={settings} 
+        models={models}
         apiEndpoint={apiEndpoint}
         onApiEndpointChange={updateApiEndpoint}
+        readOnly={!isAdmin}
       />
       <SystemLogsModal isOpen={isLogsOpen} onClose={() => setIsLogsOpen(false)} logs={logs} />
-      <TaskListModal isOpen={isTasksOpen} onClose={() => setIsTasksOpen(false)} tasks={tasks} />
-      <PromptModal isOpen={!!activePromptSection} onClose={() => setActivePromptSection(null)} onSave={handleSavePrompt} title={getActivePromptTitle()} initialPrompt={getActivePromptInitialValue()} />
+      <TaskListModal
+        isOpen={isTasksOpen}
+        onClose={() => setIsTasksOpen(false)}
+        page={taskList}
+        pageNumber={taskListPage}
+        pageSize={TASK_PAGE_SIZE}
+        onPageChange={setTaskListPage}
+        filters={taskFilters}
+        onFiltersChange={handleTaskFiltersChange}
+        models={models}
+        taskDetail={taskDetail}
+        onExpandTask={handleExpandTask}
+        recentTasks={tasks}
+        batches={batches.filter(b => (b.projectId || '') === activeProjectId)}
+        pipelines={pipelines.filter(p => (p.projectId || '') === activeProjectId)}
+        onCancelTask={canGenerate ? handleCancelTask : undefined}
+        canCancelTask={(task) => canModify(task.owner)}
+        onRetryTask={canGenerate ? handleRetryTask : undefined}
+        onRemixTask={canGenerate ? setRemixTask : undefined}
+        currency={settings.currency}
+      />
+      <RemixModal task={remixTask} models={models} defaultPrompt={getStagePrompt(remixTask?.params?.stage)} onClose={() => setRemixTask(null)} onSubmit={handleRemixTask} />
+      <PreviewModal preview={preview} onClose={() => setPreview(null)} />
+      <PipelineModal
+        isOpen={isPipelineOpen}
+        onClose={() => setIsPipelineOpen(false)}
+        onSubmit={handleRunPipeline}
+        stages={[
+          { stage: WorkflowStage.HAIRSTYLE_EXTRACTION, title: "发型提取 (Hairstyle Extraction)", model: hairModel, size: hairSize, aspectRatio: hairAspectRatio, selections: hairSelections },
+          { stage: WorkflowStage.DOLL_ASSEMBLY, title: "娃娃组装 (Doll Assembly)", model: assemblyModel, size: assemblySize, aspectRatio: assemblyAspectRatio, selections: assemblySelections },
+          { stage: WorkflowStage.DOLL_REPLACEMENT, title: "娃娃替换 (Doll Replacement)", model: replaceModel, size: replaceSize, aspectRatio: replaceAspectRatio, selections: replaceSelections },
+        ]}
+      />
+      <AccountModal
+        isOpen={isAccountOpen}
+        onClose={() => setIsAccountOpen(false)}
+        user={authUser}
+        users={users}
+        tokens={apiTokens}
+        quota={quota}
+        onChangePassword={handleChangePassword}
+        onCreateToken={handleCreateToken}
+        onRevokeToken={handleRevokeToken}
+        onCreateUser={handleCreateUser}
+        onChangeRole={handleChangeRole}
+        onDeleteUser={handleDeleteUser}
+      />
+      <UsageModal isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} summary={usage} onLoadRange={handleLoadUsage} />
+      <ProjectModal
+        isOpen={isProjectsOpen}
+        onClose={() => setIsProjectsOpen(false)}
+        projects={projects}
+        activeProjectId={activeProjectId}
+        onSelect={handleProjectChange}
+        canCreate={canGenerate}
+        canEdit={(project) => canGenerate && canModify(project.owner)}
+        onCreate={handleCreateProject}
+        onUpdate={handleUpdateProject}
+        onDelete={handleDeleteProject}
+      />
+      <PromptModal
+        isOpen={!!activePromptSection}
+        onClose={() => setActivePromptSection(null)}
+        onSave={handleSavePrompt}
+        title={activeProject ? `${getActivePromptTitle()} · ${activeProject.name}` : getActivePromptTitle()}
+        initialPrompt={getActivePromptInitialValue()}
+        readOnly={activeProject ? !(canGenerate && canModify(activeProject.owner)) : !isAdmin}
+        hint={activeProject ? (canGenerate && canModify(activeProject.owner)
+          ? `Saved for project ${activeProject.name} only. Clear the text to use the global prompt again.`
+          : "Only the project's creator or an admin can change its prompts.") : undefined}
+      />
       <Lightbox image={lightboxImage} onClose={() => setLightboxImage(null)} />
     </div>
   );
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from "react";
+import { X, KeyRound, Users, Lock, Trash2, Plus, Copy, Gauge } from "lucide-react";
+import { UserAccount, ApiToken, QuotaStatus, Role, ROLES } from "../types";
+
+interface AccountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: UserAccount;
+  users: UserAccount[];
+  tokens: ApiToken[];
+  quota: QuotaStatus[];
+  // Each resolves to true (or the new token) on success; App reports failures
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  onCreateToken: (name: string) => Promise<string | null>;
+  onRevokeToken: (token: ApiToken) => void;
+  // User management, shown to admins only
+  onCreateUser: (username: string, password: string, role: Role) => Promise<boolean>;
+  onChangeRole: (user: UserAccount, role: Role) => void;
+  onDeleteUser: (user: UserAccount) => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all";
+const ROLE_LABELS: Record<Role, string> = {
+  admin: "管理员 (Admin)",
+  operator: "操作员 (Operator)",
+  viewer: "访客 (Viewer)",
+};
+
+const buttonClass = "flex items-center gap-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap";
+
+export const AccountModal: React.FC<AccountModalProps> = ({
+  isOpen,
+  onClose,
+  user,
+  users,
+  tokens,
+  quota,
+  onChangePassword,
+  onCreateToken,
+  onRevokeToken,
+  onCreateUser,
+  onChangeRole,
+  onDeleteUser,
+}) => {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [tokenName, setTokenName] = useState("");
+  // Shown once, right after creation
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [newUsername, setNewUsername] = useState("");
+  const [newUserPassword, setNewUserPassword] = useState("");
+  const [newUserRole, setNewUserRole] = useState<Role>("operator");
+
+  // Forget typed passwords and the new token when the modal closes
+  useEffect(() => {
+    if (!isOpen) {
+      setCurrentPassword("");
+      setNewPassword("");
+      setNewUserPassword("");
+      setNewToken(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onChangePassword(currentPassword, newPassword)) {
+      setCurrentPassword("");
+      setNewPassword("");
+    }
+  };
+
+  const handleCreateToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const token = await onCreateToken(tokenName.trim());
+    if (token) {
+      setNewToken(token);
+      setTokenName("");
+    }
+  };
+
+  const handleCreateUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onCreateUser(newUsername.trim(), newUserPassword, newUserRole)) {
+      setNewUsername("");
+      setNewUserPassword("");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 sticky top-0 z-10">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            账号 (Account)
+            <span className="text-sm font-normal text-slate-500">{user.username} · {ROLE_LABELS[user.role]}</span>
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-8">
+          {/* Password */}
+          <form onSubmit={handleChangePassword} className="space-y-3">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+              <Lock size={14} />
+              修改密码 (Change Password)
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2">
+              <input type="password" autoComplete="current-password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} placeholder="Current password" className={inputClass} />
+              <input type="password" autoComplete="new-password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="New password (8+ characters)" className={inputClass} />
+              <button type="submit" disabled={!currentPassword || !newPassword} className={buttonClass}>Change</button>
+            </div>
+            <p className="text-xs text-slate-400">Signs you out everywhere else. API tokens keep working.</p>
+          </form>
+
+          <div className="h-px bg-slate-100" />
+
+          {/* Quota */}
+          <div className="space-y-3">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+              <Gauge size={14} />
+              生成配额 (Quota)
+            </h3>
+            {quota.length === 0 ? (
+              <p className="text-xs text-slate-400">No limits apply to you.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {quota.map((q, i) => (
+                  <li key={i} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div>
+                      <div className="font-medium text-slate-700">
+                        {q.period === "day" ? "每天 (Daily)" : "每月 (Monthly)"} · {q.model || "all models"}
+                      </div>
+                      <div className="text-[10px] text-slate-400">resets {new Date(q.resetsAt).toLocaleString()}</div>
+                    </div>
+                    <span className={`text-xs font-mono ${q.remaining === 0 ? "text-red-600 font-semibold" : "text-slate-600"}`}>
+                      {q.used} / {q.limit} used
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="h-px bg-slate-100" />
+
+          {/* API Tokens */}
+          <div className="space-y-3">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+              <KeyRound size={14} />
+              API Tokens
+            </h3>
+            <p className="text-xs text-slate-500">
+              For scripts: send <code className="font-mono bg-slate-100 px-1 rounded">Authorization: Bearer &lt;token&gt;</code>. A token acts as your account.
+            </p>
+
+            {newToken && (
+              <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg space-y-1">
+                <p className="text-xs font-semibold text-emerald-700">Copy the token now, it will not be shown again.</p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-xs font-mono text-slate-700 break-all">{newToken}</code>
+                  <button type="button" onClick={() => navigator.clipboard?.writeText(newToken)} className="p-1.5 text-emerald-700 hover:bg-emerald-100 rounded" title="Copy">
+                    <Copy size={14} />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleCreateToken} className="flex gap-2">
+              <input type="text" value={tokenName} onChange={(e) => setTokenName(e.target.value)} placeholder="Token name, e.g. nightly-batch" maxLength={64} className={inputClass} />
+              <button type="submit" disabled={!tokenName.trim()} className={buttonClass}><Plus size={16} /> Create</button>
+            </form>
+
+            {tokens.length === 0 ? (
+              <p className="text-xs text-slate-400">No tokens.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {tokens.map((token) => (
+                  <li key={token.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium text-slate-700 truncate">{token.name}</div>
+                      <div className="text-[10px] text-slate-400 font-mono">
+                        {token.prefix}… · created {token.createdAt} · {token.lastUsedAt ? `last used ${token.lastUsedAt}` : "never used"}
+                      </div>
+                    </div>
+                    <button onClick={() => onRevokeToken(token)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors" title="Revoke">
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {user.role === "admin" && (
+          <>
+          <div className="h-px bg-slate-100" />
+
+          {/* Users */}
+          <div className="space-y-3">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+              <Users size={14} />
+              用户 (Users)
+            </h3>
+
+            <form onSubmit={handleCreateUser} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-2">
+              <input type="text" autoComplete="off" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} placeholder="Username" className={inputClass} />
+              <input type="password" autoComplete="new-password" value={newUserPassword} onChange={(e) => setNewUserPassword(e.target.value)} placeholder="Password (8+ characters)" className={inputClass} />
+              <select value={newUserRole} onChange={(e) => setNewUserRole(e.target.value as Role)} className={inputClass}>
+                {ROLES.map((role) => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+              </select>
+              <button type="submit" disabled={!newUsername.trim() || !newUserPassword} className={buttonClass}><Plus size={16} /> Add</button>
+            </form>
+
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {users.map((u) => (
+                <li key={u.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div>
+                    <span className="font-medium text-slate-700">{u.username}</span>
+                    {u.id === user.id && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">you</span>}
+                    <div className="text-[10px] text-slate-400">created {u.createdAt}</div>
+                  </div>
+                  {u.id === user.id ? (
+                    <span className="text-xs text-slate-500">{ROLE_LABELS[u.role]}</span>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <select value={u.role} onChange={(e) => onChangeRole(u, e.target.value as Role)} className="text-xs text-slate-600 bg-transparent outline-none cursor-pointer hover:text-blue-600">
+                        {ROLES.map((role) => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                      </select>
+                      <button onClick={() => onDeleteUser(u)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors" title="Delete user">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+          </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useState, useMemo, useRef, useEffect } from "react";
-import { ImageItem } from "../types";
-import { Check, Download, Trash2, Upload, AlertCircle } from "lucide-react";
+import { ImageItem, ImageUpdate } from "../types";
+import { Check, Download, Trash2, Upload, AlertCircle, Pencil, Tag, X, Search, FolderInput } from "lucide-react";
 
 interface ImageGridProps {
   title: string;
@@ -13,8 +13,28 @@ interface ImageGridProps {
   onUploadFile?: (file: File, category: string) => Promise<void>;
   // Delete capability
   onDelete?: (selectedItems: ImageItem[]) => void;
+  // More images on the server; onLoadMore is called when paging past the loaded ones
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  // Metadata editing (rename, tags, notes); canEdit limits it to images the user may change.
+  // Resolves to true once saved.
+  onUpdate?: (image: ImageItem, updates: ImageUpdate) => Promise<boolean>;
+  canEdit?: (image: ImageItem) => boolean;
+  // Input categories the selection can be moved to
+  moveTargets?: { category: string; label: string }[];
+  onMove?: (selectedItems: ImageItem[], category: string) => void;
+  // Server-side search by name or tag
+  search?: string;
+  onSearchChange?: (q: string) => void;
 }
 
+// Splits "a, b，c" into trimmed tags
+const splitTags = (text: string) => text.split(/[,，]/).map(t => t.trim()).filter(Boolean);
+
+// Appends the new tags, skipping ones already there in any letter case
+const mergeTags = (tags: string[], added: string[]) =>
+  added.reduce((acc, tag) => acc.some(t => t.toLowerCase() === tag.toLowerCase()) ? acc : [...acc, tag], tags);
+
 const ITEMS_PER_PAGE = 20;
 
 export const ImageGrid: React.FC<ImageGridProps> = ({
@@ -25,7 +45,15 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
   onImageClick,
   category,
   onUploadFile,
-  onDelete
+  onDelete,
+  hasMore = false,
+  onLoadMore,
+  onUpdate,
+  canEdit,
+  moveTargets = [],
+  onMove,
+  search = "",
+  onSearchChange
 }) => {
   const [currentPage, setCurrentPage] = useState(1);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -40,13 +68,38 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
   // Inline confirmation state
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
-  // Pagination Logic
-  const totalPages = Math.ceil(images.length / ITEMS_PER_PAGE);
+  // Inline rename on the card
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  // Image whose tags and notes are open in the editor above the grid
+  const [detailImage, setDetailImage] = useState<ImageItem | null>(null);
+  const [tagsDraft, setTagsDraft] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [notesDraft, setNotesDraft] = useState("");
+  const [searchInput, setSearchInput] = useState(search);
+
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  // Close the editor when its image is deleted or moved away
+  useEffect(() => {
+    if (detailImage && !images.some(i => i.id === detailImage.id)) setDetailImage(null);
+  }, [images, detailImage]);
+
+  const isEditable = (img: ImageItem) => !!onUpdate && (!canEdit || canEdit(img));
+
+  // Pagination Logic: one extra page stands for whatever the server has not sent yet
+  const totalPages = Math.ceil(images.length / ITEMS_PER_PAGE) + (hasMore ? 1 : 0);
   const currentImages = useMemo(() => {
     const start = (currentPage - 1) * ITEMS_PER_PAGE;
     return images.slice(start, start + ITEMS_PER_PAGE);
   }, [images, currentPage]);
 
+  useEffect(() => {
+    if (hasMore && currentPage * ITEMS_PER_PAGE > images.length) onLoadMore?.();
+  }, [currentPage, images.length, hasMore]);
+
   // Reset confirm state if selection is cleared
   useEffect(() => {
       const hasSelection = images.some(i => i.selected);
@@ -167,6 +220,40 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
       setShowDeleteConfirm(false);
   }
 
+  const startRename = (img: ImageItem) => {
+    setRenamingId(img.id);
+    setRenameValue(img.name);
+  };
+
+  // Enter and leaving the field both save; Escape drops the change
+  const commitRename = async (img: ImageItem) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (name && name !== img.name) await onUpdate?.(img, { name });
+  };
+
+  const openDetails = (img: ImageItem) => {
+    setDetailImage(img);
+    setTagsDraft(img.tags || []);
+    setNotesDraft(img.notes || "");
+    setTagInput("");
+  };
+
+  const handleAddTags = () => {
+    setTagsDraft(prev => mergeTags(prev, splitTags(tagInput)));
+    setTagInput("");
+  };
+
+  const handleSaveDetails = async () => {
+    if (!detailImage) return;
+    // Text still in the tag field counts as added
+    const tags = mergeTags(tagsDraft, splitTags(tagInput));
+    if (await onUpdate?.(detailImage, { tags, notes: notesDraft })) setDetailImage(null);
+  };
+
+  const selectedItems = images.filter(i => i.selected);
+  const otherMoveTargets = moveTargets.filter(t => t.category !== category);
+
   const handleUploadChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && onUploadFile && category) {
       setIsUploading(true);
@@ -187,10 +274,43 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
     <div className="flex flex-col gap-3 p-4 bg-white rounded-lg border border-slate-200 shadow-sm h-full">
       <div className="flex items-center justify-between flex-wrap gap-2">
         <h4 className="font-semibold text-slate-700 text-sm uppercase tracking-wide">
-          {title} <span className="text-slate-400 font-normal">({images.length})</span>
+          {title} <span className="text-slate-400 font-normal">({images.length}{hasMore ? '+' : ''})</span>
         </h4>
         
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          {onSearchChange && (
+            <form onSubmit={(e) => { e.preventDefault(); onSearchChange(searchInput.trim()); }} className="relative">
+              <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="名称 / 标签"
+                title="Search name or tag, Enter to apply"
+                className="w-28 pl-6 pr-6 py-1.5 text-xs bg-slate-50 border border-slate-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 focus:bg-white"
+              />
+              {search && (
+                <button type="button" onClick={() => onSearchChange("")} className="absolute right-1.5 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600" title="Clear search">
+                  <X size={12} />
+                </button>
+              )}
+            </form>
+          )}
+
+          {onMove && otherMoveTargets.length > 0 && selectedItems.length > 0 && (
+            <label className="flex items-center gap-1 px-2 py-1.5 bg-slate-100 text-slate-600 rounded hover:bg-slate-200 text-xs font-medium transition-colors cursor-pointer">
+              <FolderInput size={14} />
+              <select
+                value=""
+                onChange={(e) => { if (e.target.value) onMove(selectedItems, e.target.value); }}
+                className="bg-transparent outline-none cursor-pointer"
+              >
+                <option value="">移动到 ({selectedItems.length})</option>
+                {otherMoveTargets.map(t => <option key={t.category} value={t.category}>{t.label}</option>)}
+              </select>
+            </label>
+          )}
+
           {allowUpload && (
              <label className={`cursor-pointer flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-600 rounded hover:bg-blue-100 text-xs font-medium transition-colors ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}>
              <Upload size={14} />
@@ -226,7 +346,7 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                         className="flex items-center gap-1 px-3 py-1.5 bg-red-50 text-red-600 rounded hover:bg-red-100 text-xs font-medium transition-colors border border-red-100"
                     >
                         <Trash2 size={14} />
-                        <span>删除 ({images.filter(i => i.selected).length})</span>
+                        <span>删除 ({selectedItems.length})</span>
                     </button>
                 )}
              </div>
@@ -238,6 +358,44 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
         </div>
       </div>
 
+      {detailImage && (
+        <div className="p-3 bg-slate-50 border border-slate-200 rounded-md space-y-2 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-slate-700 truncate">标签与备注 · {detailImage.name}</span>
+            <button type="button" onClick={() => setDetailImage(null)} className="text-slate-400 hover:text-slate-600"><X size={14} /></button>
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            {tagsDraft.map(tag => (
+              <span key={tag} className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">
+                #{tag}
+                <button type="button" onClick={() => setTagsDraft(prev => prev.filter(t => t !== tag))} className="hover:text-red-600" title="Remove tag"><X size={10} /></button>
+              </span>
+            ))}
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); handleAddTags(); } }}
+              placeholder="添加标签, 回车确认"
+              maxLength={200}
+              className="flex-1 min-w-[120px] px-2 py-1 bg-white border border-slate-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <textarea
+            value={notesDraft}
+            onChange={(e) => setNotesDraft(e.target.value)}
+            placeholder="备注 (Notes)"
+            maxLength={2000}
+            rows={2}
+            className="w-full px-2 py-1 bg-white border border-slate-200 rounded resize-none focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setDetailImage(null)} className="px-2 py-1 text-slate-500 hover:text-slate-700">取消</button>
+            <button type="button" onClick={handleSaveDetails} className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 font-medium">保存</button>
+          </div>
+        </div>
+      )}
+
       <div ref={containerRef} onMouseDown={handleMouseDown} className="flex-1 min-h-[300px] bg-slate-50 rounded-md p-2 relative select-none overflow-y-auto">
         {selectionBox && (
           <div className="absolute border-2 border-blue-500 bg-blue-500/20 z-50 pointer-events-none" style={{
@@ -250,7 +408,9 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
 
         {images.length === 0 ? (
            <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-400 border-2 border-dashed border-slate-200 rounded-md m-2">
-             {allowUpload ? (
+             {search ? (
+                <p className="text-sm">没有匹配 "{search}" 的图片</p>
+             ) : allowUpload ? (
                <>
                 <Upload size={32} className="mb-2 opacity-50" />
                 <p className="text-sm">拖入图片 或 点击上传按钮</p>
@@ -269,8 +429,50 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                   img.selected ? "border-blue-500 ring-2 ring-blue-500 ring-offset-1" : "border-transparent hover:shadow-lg hover:border-slate-200"
                 }`}
                 onClick={() => onImageClick?.(img)}
+                title={[img.owner ? `${img.name} · ${img.owner}` : img.name, img.notes].filter(Boolean).join("\n")}
               >
                 <img src={img.url} alt={img.name} className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105 pointer-events-none" />
+                {onUpdate && (
+                  <div
+                    className={`absolute bottom-0 inset-x-0 px-1.5 py-1 bg-gradient-to-t from-black/70 to-transparent text-white text-[10px] transition-opacity duration-200 cursor-default ${renamingId === img.id || img.tags?.length ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    {renamingId === img.id ? (
+                      <input
+                        type="text"
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={() => commitRename(img)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur();
+                          if (e.key === "Escape") setRenamingId(null);
+                        }}
+                        maxLength={255}
+                        className="w-full px-1 py-0.5 rounded text-slate-800 text-[11px] outline-none"
+                      />
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <span className="flex-1 truncate">{img.name}</span>
+                        {isEditable(img) && (
+                          <>
+                            <button type="button" onClick={() => startRename(img)} className="p-0.5 hover:text-blue-200" title="Rename"><Pencil size={11} /></button>
+                            <button type="button" onClick={() => openDetails(img)} className="p-0.5 hover:text-blue-200" title="Tags & notes"><Tag size={11} /></button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    {img.tags && img.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-0.5 mt-0.5">
+                        {img.tags.slice(0, 3).map(tag => <span key={tag} className="px-1 rounded bg-white/20">#{tag}</span>)}
+                        {img.tags.length > 3 && <span className="px-1">+{img.tags.length - 3}</span>}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {img.variation !== undefined && (
+                    <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/50 text-white text-[10px] font-mono" title="Variation index">V{img.variation + 1}</span>
+                )}
                 <div 
                     className={`absolute top-0 right-0 p-2 cursor-pointer transition-opacity duration-200 z-10 ${img.selected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
                     onClick={(e) => { e.stopPropagation(); handleSelect(img.id); }}
@@ -288,7 +490,7 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
       {totalPages > 1 && (
         <div className="flex justify-center items-center gap-4 mt-2">
           <button disabled={currentPage === 1} onClick={() => setCurrentPage((p) => p - 1)} className="px-3 py-1 text-xs rounded border disabled:opacity-50">上一页</button>
-          <span className="text-xs text-slate-500">{currentPage} / {totalPages}</span>
+          <span className="text-xs text-slate-500">{currentPage} / {totalPages}{hasMore ? '+' : ''}</span>
           <button disabled={currentPage === totalPages} onClick={() => setCurrentPage((p) => p + 1)} className="px-3 py-1 text-xs rounded border disabled:opacity-50">下一页</button>
         </div>
       )}
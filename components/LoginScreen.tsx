@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from "react";
+import { LogIn, UserPlus, Link2Off } from "lucide-react";
+
+interface LoginScreenProps {
+  // Still asking the backend whether we are signed in
+  checking: boolean;
+  // No account exists yet: the form creates the first one
+  setupRequired: boolean;
+  connectionFailed: boolean;
+  apiEndpoint: string;
+  onApiEndpointChange: (url: string) => void;
+  // Resolves to an error message, or null once signed in
+  onSubmit: (username: string, password: string) => Promise<string | null>;
+}
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({
+  checking,
+  setupRequired,
+  connectionFailed,
+  apiEndpoint,
+  onApiEndpointChange,
+  onSubmit,
+}) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [localApiUrl, setLocalApiUrl] = useState(apiEndpoint);
+
+  useEffect(() => {
+    setLocalApiUrl(apiEndpoint);
+  }, [apiEndpoint]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    const message = await onSubmit(username.trim(), password);
+    setIsSubmitting(false);
+    if (message) setError(message);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="px-6 py-5 border-b border-slate-100 bg-slate-50">
+          <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-700 to-purple-600">
+            DollWorkflow<span className="font-light text-slate-600">AI</span>
+          </h1>
+          <p className="text-xs text-slate-500 mt-1">
+            {setupRequired ? "创建第一个账号 (Create the first account)" : "登录 (Sign in)"}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {connectionFailed && (
+            <div className="flex items-center gap-2 px-3 py-2 bg-red-50 text-red-600 border border-red-200 rounded-lg text-xs font-semibold">
+              <Link2Off size={14} />
+              <span>Backend Disconnected</span>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <label className="block text-sm font-medium text-slate-700">用户名 (Username)</label>
+            <input
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="block text-sm font-medium text-slate-700">密码 (Password)</label>
+            <input
+              type="password"
+              autoComplete={setupRequired ? "new-password" : "current-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+            />
+            {setupRequired && <p className="text-xs text-slate-400">At least 8 characters.</p>}
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={checking || isSubmitting || !username || !password}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {setupRequired ? <UserPlus size={16} /> : <LogIn size={16} />}
+            {checking ? "Checking..." : setupRequired ? "Create Account" : "Sign In"}
+          </button>
+
+          <div className="pt-2 border-t border-slate-100 space-y-1.5">
+            <label className="block text-xs font-medium text-slate-500">Backend API Endpoint</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={localApiUrl}
+                onChange={(e) => setLocalApiUrl(e.target.value)}
+                placeholder="http://localhost:3001/api"
+                className="flex-1 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+              />
+              <button
+                type="button"
+                onClick={() => onApiEndpointChange(localApiUrl)}
+                disabled={localApiUrl === apiEndpoint}
+                className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
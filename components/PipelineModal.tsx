@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from "react";
+import { X, Workflow, ArrowDown, Play, CheckCircle2, AlertCircle } from "lucide-react";
+import { DEFAULT_PIPELINE_LINKS, ImageItem, PipelineStepRequest, STAGE_SLOTS, WorkflowStage } from "../types";
+
+// Current section settings and selections, used as the pipeline's step configuration
+export interface PipelineStageConfig {
+  stage: WorkflowStage;
+  title: string;
+  model: string;
+  size: string;
+  aspectRatio: string;
+  selections: ImageItem[][]; // Selected images per slot, same order as STAGE_SLOTS
+}
+
+interface PipelineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stages: PipelineStageConfig[];
+  onSubmit: (steps: PipelineStepRequest[], inputImages: ImageItem[]) => void;
+}
+
+export const PipelineModal: React.FC<PipelineModalProps> = ({
+  isOpen,
+  onClose,
+  stages,
+  onSubmit,
+}) => {
+  const [included, setIncluded] = useState<Record<string, boolean>>({});
+  const [links, setLinks] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setIncluded(Object.fromEntries(stages.map(s => [s.stage, true])));
+      setLinks({ ...DEFAULT_PIPELINE_LINKS } as Record<string, string>);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const activeStages = stages.filter(s => included[s.stage]);
+  const activeIndexes = stages.map((s, i) => included[s.stage] ? i : -1).filter(i => i !== -1);
+  const isContiguous = activeIndexes.every((idx, i) => i === 0 || idx === activeIndexes[i - 1] + 1);
+
+  // Per step: which slot is piped in, and whether every other slot has exactly one image
+  const stepChecks = activeStages.map((config, i) => {
+    const piped = i > 0 ? links[activeStages[i - 1].stage] : undefined;
+    const slots = STAGE_SLOTS[config.stage].map((slot, slotIndex) => ({
+      ...slot,
+      piped: slot.category === piped,
+      selected: config.selections[slotIndex] || [],
+    }));
+    const ok = slots.every(slot => slot.piped || slot.selected.length === 1);
+    return { config, slots, ok };
+  });
+
+  const canSubmit = activeStages.length > 0 && isContiguous && stepChecks.every(c => c.ok);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    const steps: PipelineStepRequest[] = activeStages.map((config, i) => ({
+      stage: config.stage,
+      model: config.model,
+      size: config.size,
+      aspect_ratio: config.aspectRatio,
+      outputTo: i < activeStages.length - 1 ? links[config.stage] : undefined,
+    }));
+    const inputImages = stepChecks.flatMap(c => c.slots.filter(slot => !slot.piped).flatMap(slot => slot.selected));
+    onSubmit(steps, inputImages);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl animate-in fade-in zoom-in duration-200 flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 rounded-t-xl">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Workflow size={20} className="text-blue-600" />
+            流水线 (Pipeline)
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-2">
+          <p className="text-xs text-slate-500 mb-4">
+            Each step uses the model, size and ratio currently chosen in its section. Slots that are not fed by the previous step use the image selected in that section.
+          </p>
+
+          {stages.map((config) => {
+            const check = stepChecks.find(c => c.config.stage === config.stage);
+            const activeIndex = activeStages.indexOf(config);
+            const isLastActive = activeIndex === activeStages.length - 1;
+            return (
+              <React.Fragment key={config.stage}>
+                <div className={`rounded-lg border p-4 ${included[config.stage] ? 'border-slate-200 bg-white' : 'border-dashed border-slate-200 bg-slate-50 opacity-60'}`}>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!included[config.stage]}
+                      onChange={(e) => setIncluded(prev => ({ ...prev, [config.stage]: e.target.checked }))}
+                    />
+                    <span className="font-semibold text-slate-800 text-sm">{config.title}</span>
+                    <span className="ml-auto text-xs font-mono text-slate-400">{config.model} · {config.size} · {config.aspectRatio}</span>
+                  </label>
+
+                  {check && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {check.slots.map(slot => (
+                        <span
+                          key={slot.category}
+                          className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs ${
+                            slot.piped ? 'bg-blue-50 text-blue-700' :
+                            slot.selected.length === 1 ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'
+                          }`}
+                        >
+                          {slot.piped || slot.selected.length === 1 ? <CheckCircle2 size={12} /> : <AlertCircle size={12} />}
+                          {slot.label}: {slot.piped ? '上一步输出 (previous output)' :
+                            slot.selected.length === 1 ? slot.selected[0].name : `需选择 1 张 (selected ${slot.selected.length})`}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {included[config.stage] && !isLastActive && activeIndex !== -1 && (
+                  <div className="flex items-center justify-center gap-2 py-1 text-xs text-slate-500">
+                    <ArrowDown size={14} />
+                    <span>输出至 (output to)</span>
+                    <select
+                      value={links[config.stage] || ''}
+                      onChange={(e) => setLinks(prev => ({ ...prev, [config.stage]: e.target.value }))}
+                      className="text-xs font-medium text-slate-700 bg-white border border-slate-200 rounded px-2 py-1 outline-none"
+                    >
+                      {STAGE_SLOTS[activeStages[activeIndex + 1].stage].map(slot => (
+                        <option key={slot.category} value={slot.category}>{slot.label} ({slot.category})</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </React.Fragment>
+            );
+          })}
+
+          {!isContiguous && (
+            <p className="text-xs text-red-600">Selected stages must be consecutive.</p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-white border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-all active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <Play size={16} />
+            Run Pipeline
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from "react";
+import { X, Eye } from "lucide-react";
+import { PreviewResult } from "../types";
+
+interface PreviewModalProps {
+  preview: PreviewResult | null;
+  onClose: () => void;
+}
+
+export const PreviewModal: React.FC<PreviewModalProps> = ({
+  preview,
+  onClose,
+}) => {
+  if (!preview) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl animate-in fade-in zoom-in duration-200 flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 rounded-t-xl">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Eye size={20} className="text-blue-600" />
+            请求预览 (Payload Preview)
+            <span className="text-xs font-mono font-normal text-slate-500 bg-white border border-slate-200 rounded px-2 py-0.5">{preview.provider}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">输入顺序 (Input Order)</h3>
+            <div className="flex flex-wrap gap-3">
+              {preview.inputs.map((input) => (
+                <div key={input.role} className="w-28">
+                  <div className="relative w-28 h-28 rounded-lg overflow-hidden border border-slate-200 bg-slate-100">
+                    <img src={input.url} alt={input.name} className="w-full h-full object-cover" />
+                    <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-blue-600 text-white text-xs font-bold">{input.role}</span>
+                  </div>
+                  <div className="mt-1 text-xs font-medium text-slate-700">{input.slot}</div>
+                  <div className="text-[10px] text-slate-400 truncate" title={input.name}>{input.name}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">提示词 (Resolved Prompt)</h3>
+            <div className="px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">
+              {preview.prompt || <span className="italic text-slate-400">(empty)</span>}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">请求体 (JSON Body)</h3>
+            <pre className="px-4 py-3 bg-slate-900 text-green-400 rounded-lg text-xs font-mono overflow-x-auto">
+              {JSON.stringify(preview.payload, null, 2)}
+            </pre>
+            <p className="text-xs text-slate-500 mt-2">
+              Nothing was uploaded or sent to the provider. Image links are filled in when the task runs.
+            </p>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-white border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
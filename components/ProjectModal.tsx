@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from "react";
+import { X, FolderKanban, Plus, Pencil, Trash2, Check } from "lucide-react";
+import { Project } from "../types";
+
+export type ProjectFields = Pick<Project, "name" | "sku" | "description">;
+
+interface ProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+  activeProjectId: string; // '' when no project is active
+  onSelect: (projectId: string) => void;
+  canCreate: boolean;
+  // Creator or admin, and allowed to generate
+  canEdit: (project: Project) => boolean;
+  // Resolve to true on success; App reports failures
+  onCreate: (fields: ProjectFields) => Promise<boolean>;
+  onUpdate: (project: Project, fields: ProjectFields) => Promise<boolean>;
+  onDelete: (project: Project) => void;
+}
+
+const PROMPT_LABELS: Record<string, string> = {
+  promptHairstyle: "发型提取",
+  promptAssembly: "娃娃组装",
+  promptReplacement: "娃娃替换",
+};
+
+const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all";
+const buttonClass = "flex items-center justify-center gap-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap";
+
+const EMPTY_FIELDS: ProjectFields = { name: "", sku: "", description: "" };
+
+export const ProjectModal: React.FC<ProjectModalProps> = ({
+  isOpen,
+  onClose,
+  projects,
+  activeProjectId,
+  onSelect,
+  canCreate,
+  canEdit,
+  onCreate,
+  onUpdate,
+  onDelete,
+}) => {
+  const [fields, setFields] = useState<ProjectFields>(EMPTY_FIELDS);
+  // Set while the form edits an existing project instead of creating one
+  const [editing, setEditing] = useState<Project | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFields(EMPTY_FIELDS);
+      setEditing(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const startEdit = (project: Project) => {
+    setEditing(project);
+    setFields({ name: project.name, sku: project.sku || "", description: project.description || "" });
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setFields(EMPTY_FIELDS);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = { ...fields, name: fields.name.trim() };
+    const ok = editing ? await onUpdate(editing, trimmed) : await onCreate(trimmed);
+    if (ok) cancelEdit();
+  };
+
+  const overridden = (project: Project) => Object.entries(project.prompts || {}).filter(([, value]) => !!value).map(([key]) => PROMPT_LABELS[key] || key);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 sticky top-0 z-10">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <FolderKanban size={20} className="text-blue-600" />
+            项目 (Projects)
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-xs text-slate-500">
+            Each project keeps its own uploads, tasks and outputs (in a subfolder of the working directory). While a project is active, the prompt button of each section edits that project's prompt.
+          </p>
+
+          {(canCreate || editing) && (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                {editing ? `编辑 (Edit) · ${editing.name}` : "新建项目 (New Project)"}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-2">
+                <input type="text" value={fields.name} onChange={(e) => setFields({ ...fields, name: e.target.value })} placeholder="Name" maxLength={64} className={inputClass} />
+                <input type="text" value={fields.sku} onChange={(e) => setFields({ ...fields, sku: e.target.value })} placeholder="SKU (optional)" maxLength={64} className={inputClass} />
+              </div>
+              <textarea value={fields.description} onChange={(e) => setFields({ ...fields, description: e.target.value })} placeholder="Description (optional)" maxLength={1000} rows={2} className={`${inputClass} resize-none`} />
+              <div className="flex justify-end gap-2">
+                {editing && (
+                  <button type="button" onClick={cancelEdit} className="px-3 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors">
+                    Cancel
+                  </button>
+                )}
+                <button type="submit" disabled={!fields.name.trim()} className={buttonClass}>
+                  {editing ? <><Check size={16} /> Save</> : <><Plus size={16} /> Create</>}
+                </button>
+              </div>
+            </form>
+          )}
+
+          <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+            <li className={`flex items-center justify-between px-3 py-2 text-sm ${activeProjectId === "" ? "bg-blue-50/50" : ""}`}>
+              <div>
+                <div className="font-medium text-slate-700">未分组 (No project)</div>
+                <div className="text-[10px] text-slate-400">Images and tasks outside any project</div>
+              </div>
+              {activeProjectId === "" ? (
+                <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">active</span>
+              ) : (
+                <button onClick={() => onSelect("")} className="text-xs text-blue-600 hover:underline">Open</button>
+              )}
+            </li>
+            {projects.map((project) => (
+              <li key={project.id} className={`flex items-center justify-between gap-3 px-3 py-2 text-sm ${activeProjectId === project.id ? "bg-blue-50/50" : ""}`}>
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-700 truncate">
+                    {project.name}
+                    {project.sku && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 font-mono">{project.sku}</span>}
+                  </div>
+                  {project.description && <div className="text-xs text-slate-500 truncate">{project.description}</div>}
+                  <div className="text-[10px] text-slate-400">
+                    <span className="font-mono">{project.folder}/</span> · {project.owner ? `${project.owner}, ` : ""}{project.createdAt}
+                    {overridden(project).length > 0 && <> · prompts: {overridden(project).join(", ")}</>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {activeProjectId === project.id ? (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">active</span>
+                  ) : (
+                    <button onClick={() => onSelect(project.id)} className="text-xs text-blue-600 hover:underline">Open</button>
+                  )}
+                  {canEdit(project) && (
+                    <>
+                      <button onClick={() => startEdit(project)} className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors" title="Edit project">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => onDelete(project)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors" title="Delete project">
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
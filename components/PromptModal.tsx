@@ -7,6 +7,10 @@ interface PromptModalProps {
   onSave: (newPrompt: string) => void;
   title: string;
   initialPrompt: string;
+  // Shown but not editable, for users who may not change settings
+  readOnly?: boolean;
+  // Replaces the note under the text, e.g. where the prompt is saved
+  hint?: string;
 }
 
 export const PromptModal: React.FC<PromptModalProps> = ({
@@ -15,6 +19,8 @@ export const PromptModal: React.FC<PromptModalProps> = ({
   onSave,
   title,
   initialPrompt,
+  readOnly = false,
+  hint,
 }) => {
   const [promptText, setPromptText] = useState("");
 
@@ -56,11 +62,12 @@ export const PromptModal: React.FC<PromptModalProps> = ({
             <textarea
               value={promptText}
               onChange={(e) => setPromptText(e.target.value)}
+              readOnly={readOnly}
               className="w-full h-64 px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all leading-relaxed resize-none"
               placeholder="Enter your prompt here..."
             />
             <p className="text-xs text-slate-500 mt-2">
-              Use "Save" to persist these changes to your configuration file.
+              {hint || (readOnly ? "Only admins can change prompts." : 'Use "Save" to persist these changes to your configuration file.')}
             </p>
           </div>
 
@@ -70,8 +77,9 @@ export const PromptModal: React.FC<PromptModalProps> = ({
               onClick={onClose}
               className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
             >
-              Cancel
+              {readOnly ? "Close" : "Cancel"}
             </button>
+            {!readOnly && (
             <button
               type="submit"
               className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-all active:scale-95"
@@ -79,6 +87,7 @@ export const PromptModal: React.FC<PromptModalProps> = ({
               <Save size={16} />
               Save Prompt
             </button>
+            )}
           </div>
         </form>
       </div>
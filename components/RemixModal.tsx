@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from "react";
+import { X, Shuffle, Settings2, Maximize2, Monitor } from "lucide-react";
+import { DEFAULT_MODEL, ModelConfig, RemixOverrides, TaskItem } from "../types";
+
+interface RemixModalProps {
+  task: TaskItem | null;
+  // Stage prompt from settings, used when the task did not carry its own prompt
+  defaultPrompt: string;
+  models: ModelConfig[];
+  onClose: () => void;
+  onSubmit: (task: TaskItem, overrides: RemixOverrides) => void;
+}
+
+export const RemixModal: React.FC<RemixModalProps> = ({
+  task,
+  defaultPrompt,
+  models,
+  onClose,
+  onSubmit,
+}) => {
+  const [model, setModel] = useState<string>(DEFAULT_MODEL.id);
+  const [size, setSize] = useState("");
+  const [aspectRatio, setAspectRatio] = useState("");
+  const [prompt, setPrompt] = useState("");
+
+  useEffect(() => {
+    if (task?.params) {
+      setModel(task.params.model);
+      setSize(task.params.size);
+      setAspectRatio(task.params.aspect_ratio);
+      setPrompt(task.params.prompt || defaultPrompt);
+    }
+  }, [task, defaultPrompt]);
+
+  if (!task || !task.params) return null;
+
+  const currentConfig = models.find(m => m.id === model);
+
+  const handleModelChange = (newModel: string) => {
+    setModel(newModel);
+    const config = models.find(m => m.id === newModel);
+    if (config && !config.sizes.includes(size)) setSize(config.defaultSize);
+    if (config && !config.aspectRatios.includes(aspectRatio)) setAspectRatio(config.defaultAspectRatio);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(task, {
+      model,
+      size,
+      aspect_ratio: aspectRatio,
+      // Only send the prompt when it differs from the stage default
+      prompt: prompt !== defaultPrompt ? prompt : undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl animate-in fade-in zoom-in duration-200 flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 rounded-t-xl">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Shuffle size={20} className="text-purple-600" />
+            Remix: <span className="text-slate-600 font-normal">{task.type}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-hidden">
+          <div className="p-6 flex-1 overflow-y-auto space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg border border-slate-200 shadow-sm" title="AI Model">
+                <Settings2 size={16} className="text-slate-400" />
+                <select
+                  value={model}
+                  onChange={(e) => handleModelChange(e.target.value)}
+                  className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600 max-w-[160px]"
+                >
+                  {models.map(({ id }) => (
+                    <option key={id} value={id}>{id}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg border border-slate-200 shadow-sm" title="Resolution Size">
+                <Maximize2 size={16} className="text-slate-400" />
+                <select
+                  value={size}
+                  onChange={(e) => setSize(e.target.value)}
+                  className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600"
+                >
+                  {(currentConfig?.sizes || []).map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg border border-slate-200 shadow-sm" title="Aspect Ratio">
+                <Monitor size={16} className="text-slate-400" />
+                <select
+                  value={aspectRatio}
+                  onChange={(e) => setAspectRatio(e.target.value)}
+                  className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600"
+                >
+                  {(currentConfig?.aspectRatios || []).map((r) => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                提示词 (Prompt)
+              </label>
+              <textarea
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                className="w-full h-48 px-4 py-3 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all leading-relaxed resize-none"
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                Applies to this remix only. Saved stage prompts are not changed.
+              </p>
+            </div>
+
+            <p className="text-xs text-slate-500">
+              Inputs: {task.params.input_images.map(i => i.name).join(", ")}
+            </p>
+          </div>
+
+          <div className="px-6 py-4 bg-white border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex items-center gap-2 px-6 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg shadow-sm transition-all active:scale-95"
+            >
+              <Shuffle size={16} />
+              Remix
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
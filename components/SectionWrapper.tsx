@@ -1,13 +1,14 @@
 import React from "react";
-import { AIModel, MODEL_CONFIGS } from "../types";
-import { Sparkles, Settings2, Maximize2, Monitor, MessageSquareText } from "lucide-react";
+import { ModelConfig, BatchMode } from "../types";
+import { Sparkles, Settings2, Maximize2, Monitor, MessageSquareText, Layers, Eye, Copy, RefreshCw } from "lucide-react";
 
 interface SectionWrapperProps {
   title: string;
   stepNumber: number;
   description?: string;
-  selectedModel: AIModel;
-  onModelChange: (model: AIModel) => void;
+  models: ModelConfig[]; // Catalog from GET /api/models
+  selectedModel: string;
+  onModelChange: (model: string) => void;
   
   selectedSize: string;
   onSizeChange: (size: string) => void;
@@ -17,6 +18,25 @@ interface SectionWrapperProps {
 
   onPromptClick: () => void;
   onGenerate: () => void;
+  onPreview: () => void; // Dry run, shows the payload without generating
+
+  // Batch mode: how multi-image selections expand, and how many tasks the current selection makes
+  batchMode: BatchMode;
+  onBatchModeChange: (mode: BatchMode) => void;
+  taskCount: number;
+
+  // Images requested per task, up to the model's variations.max
+  variations: number;
+  onVariationsChange: (count: number) => void;
+
+  // Bypass the result cache and always call the provider
+  forceRegenerate: boolean;
+  onForceRegenerateChange: (force: boolean) => void;
+
+  // Viewers see the section without the generate controls
+  canGenerate: boolean;
+  // Tasks the user may still start with the selected model; undefined when no quota applies
+  quotaRemaining?: number;
 
   children: React.ReactNode;
 }
@@ -25,6 +45,7 @@ export const SectionWrapper: React.FC<SectionWrapperProps> = ({
   title,
   stepNumber,
   description,
+  models,
   selectedModel,
   onModelChange,
   selectedSize,
@@ -33,9 +54,29 @@ export const SectionWrapper: React.FC<SectionWrapperProps> = ({
   onAspectRatioChange,
   onPromptClick,
   onGenerate,
+  onPreview,
+  batchMode,
+  onBatchModeChange,
+  taskCount,
+  variations,
+  onVariationsChange,
+  forceRegenerate,
+  onForceRegenerateChange,
+  canGenerate,
+  quotaRemaining,
   children,
 }) => {
-  const currentConfig = MODEL_CONFIGS[selectedModel];
+  const currentConfig = models.find(m => m.id === selectedModel);
+  const maxVariations = currentConfig?.payload?.variations?.max ?? 1;
+
+  // Keep size and ratio valid for the newly selected model
+  const handleModelChange = (model: string) => {
+    onModelChange(model);
+    const config = models.find(m => m.id === model);
+    if (config && !config.sizes.includes(selectedSize)) onSizeChange(config.defaultSize);
+    if (config && !config.aspectRatios.includes(selectedAspectRatio)) onAspectRatioChange(config.defaultAspectRatio);
+    if (variations > (config?.payload?.variations?.max ?? 1)) onVariationsChange(1);
+  };
 
   return (
     <div className="w-full bg-white rounded-xl shadow-lg border border-slate-100 overflow-hidden mb-8 transition-all hover:shadow-xl">
@@ -72,12 +113,13 @@ export const SectionWrapper: React.FC<SectionWrapperProps> = ({
                 <span className="hidden sm:inline text-xs font-semibold text-slate-500 uppercase mr-1">Model:</span>
                 <select
                     value={selectedModel}
-                    onChange={(e) => onModelChange(e.target.value as AIModel)}
+                    onChange={(e) => handleModelChange(e.target.value)}
                     className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600 max-w-[160px]"
                 >
-                    {Object.values(AIModel).map((model) => (
-                        <option key={model} value={model}>
-                            {model}
+                    {/* Until the catalog loads, show the current value on its own */}
+                    {(currentConfig ? models : [{ id: selectedModel }]).map(({ id }) => (
+                        <option key={id} value={id}>
+                            {id}
                         </option>
                     ))}
                 </select>
@@ -92,7 +134,7 @@ export const SectionWrapper: React.FC<SectionWrapperProps> = ({
                     onChange={(e) => onSizeChange(e.target.value)}
                     className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600"
                 >
-                    {currentConfig.sizes.map((size) => (
+                    {(currentConfig?.sizes || [selectedSize]).map((size) => (
                         <option key={size} value={size}>
                             {size}
                         </option>
@@ -109,7 +151,7 @@ export const SectionWrapper: React.FC<SectionWrapperProps> = ({
                     onChange={(e) => onAspectRatioChange(e.target.value)}
                     className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600"
                 >
-                    {currentConfig.aspectRatios.map((ratio) => (
+                    {(currentConfig?.aspectRatios || [selectedAspectRatio]).map((ratio) => (
                         <option key={ratio} value={ratio}>
                             {ratio}
                         </option>
@@ -125,7 +167,58 @@ export const SectionWrapper: React.FC<SectionWrapperProps> = ({
         {children}
         
         {/* Action Bar */}
-        <div className="mt-6 pt-4 border-t border-slate-100 flex justify-end">
+        {canGenerate ? (
+        <div className="mt-6 pt-4 border-t border-slate-100 flex items-center justify-end gap-3">
+            <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg border border-slate-200 shadow-sm" title="Batch Mode: how multiple selected images per slot are combined">
+                <Layers size={16} className="text-slate-400" />
+                <select
+                    value={batchMode}
+                    onChange={(e) => onBatchModeChange(e.target.value as BatchMode)}
+                    className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600"
+                >
+                    <option value="matrix">全组合 (Matrix)</option>
+                    <option value="zip">按顺序配对 (Zip)</option>
+                </select>
+            </div>
+            <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg border border-slate-200 shadow-sm" title="Variations: images generated per task">
+                <Copy size={16} className="text-slate-400" />
+                <select
+                    value={variations}
+                    onChange={(e) => onVariationsChange(parseInt(e.target.value))}
+                    disabled={maxVariations <= 1}
+                    className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600 disabled:cursor-not-allowed disabled:text-slate-400"
+                >
+                    {Array.from({ length: maxVariations }, (_, i) => i + 1).map((n) => (
+                        <option key={n} value={n}>× {n}</option>
+                    ))}
+                </select>
+            </div>
+            <label className="flex items-center gap-2 bg-white px-3 py-2 rounded-lg border border-slate-200 shadow-sm cursor-pointer" title="Force regenerate: ignore earlier results for the same inputs and settings">
+                <input
+                    type="checkbox"
+                    checked={forceRegenerate}
+                    onChange={(e) => onForceRegenerateChange(e.target.checked)}
+                    className="accent-blue-600"
+                />
+                <RefreshCw size={16} className={forceRegenerate ? "text-blue-600" : "text-slate-400"} />
+                <span className="text-sm font-medium text-slate-700">重新生成</span>
+            </label>
+            <span className={`text-xs ${taskCount > 1 ? 'text-blue-600 font-semibold' : 'text-slate-400'}`}>
+                {taskCount > 0 ? `将创建 ${taskCount} 个任务` : "选择不完整 / Incomplete selection"}
+            </span>
+            {quotaRemaining !== undefined && (
+                <span className={`text-xs ${taskCount > quotaRemaining ? 'text-red-600 font-semibold' : 'text-slate-400'}`} title="Generation quota left for this model">
+                    剩余配额 {quotaRemaining}
+                </span>
+            )}
+            <button
+                onClick={onPreview}
+                className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2.5 rounded-lg font-medium border border-slate-200 shadow-sm transition-all active:scale-95"
+                title="Preview the API payload without spending credits"
+            >
+                <Eye size={18} />
+                <span>预览 / Preview</span>
+            </button>
             <button 
                 onClick={onGenerate}
                 className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-2.5 rounded-lg font-medium shadow-md hover:shadow-lg transition-all active:scale-95"
@@ -134,6 +227,11 @@ export const SectionWrapper: React.FC<SectionWrapperProps> = ({
                 <span>开始生成 / Generate</span>
             </button>
         </div>
+        ) : (
+        <div className="mt-6 pt-4 border-t border-slate-100 text-right text-xs text-slate-400">
+            只读 / View only: ask an admin for the operator role to generate.
+        </div>
+        )}
       </div>
     </div>
   );
@@ -1,15 +1,46 @@
 import React, { useState, useEffect } from "react";
-import { X, Save, FolderOpen, Cpu, Key, Cloud, Globe } from "lucide-react";
-import { AppSettings, DEFAULT_SETTINGS } from "../types";
+import { X, Save, FolderOpen, Cpu, Key, Cloud, Globe, Boxes, Timer, Gauge, Plus, Trash2, Coins } from "lucide-react";
+import { AppSettings, ModelConfig, DEFAULT_SETTINGS, PROVIDERS, STORAGE_BACKENDS, RetryPolicy, DEFAULT_RETRY_POLICY, SECRET_SETTINGS, SecretSetting, QuotaRule, PriceRule, BudgetRule } from "../types";
+
+const RETRY_POLICY_FIELDS: { field: keyof RetryPolicy; label: string; step?: string }[] = [
+  { field: "maxPollDurationMs", label: "最长等待 (Max Poll Duration, ms)" },
+  { field: "pollIntervalMs", label: "轮询间隔 (Poll Interval, ms)" },
+  { field: "pollBackoff", label: "退避倍数 (Poll Backoff)", step: "0.1" },
+  { field: "maxPollIntervalMs", label: "最大轮询间隔 (Max Poll Interval, ms)" },
+  { field: "submitAttempts", label: "提交次数 (Submit Attempts)" },
+  { field: "submitRetryDelayMs", label: "提交重试间隔 (Submit Retry Delay, ms)" },
+  { field: "downloadAttempts", label: "下载次数 (Download Attempts)" },
+  { field: "downloadRetryDelayMs", label: "下载重试间隔 (Download Retry Delay, ms)" },
+  { field: "downloadTimeoutMs", label: "下载超时 (Download Timeout, ms)" },
+];
+
+// The server never returns secrets; a blank field keeps the saved value
+const withBlankSecrets = (settings: AppSettings): AppSettings => {
+  const blank = { ...settings };
+  SECRET_SETTINGS.forEach((field) => { blank[field] = ""; });
+  return blank;
+};
+
+const SecretLabel: React.FC<{ label: string; isSet: boolean }> = ({ label, isSet }) => (
+  <label className="flex items-center justify-between text-sm font-medium text-slate-700">
+    {label}
+    <span className={`text-[10px] px-1.5 py-0.5 rounded ${isSet ? "bg-emerald-50 text-emerald-600" : "bg-slate-100 text-slate-400"}`}>
+      {isSet ? "已设置 (set)" : "未设置 (not set)"}
+    </span>
+  </label>
+);
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (settings: AppSettings) => void;
   currentSettings: AppSettings;
+  models: ModelConfig[];
   // New props for dynamic API configuration
   apiEndpoint?: string;
   onApiEndpointChange?: (url: string) => void;
+  // Non-admins see the settings but can only change the endpoint
+  readOnly?: boolean;
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -17,13 +48,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   onClose,
   onSave,
   currentSettings,
+  models,
   apiEndpoint,
-  onApiEndpointChange
+  onApiEndpointChange,
+  readOnly = false
 }) => {
   const [formData, setFormData] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [localApiUrl, setLocalApiUrl] = useState("");
   // Track if user has modified the form to prevent overwriting by polling
   const [isDirty, setIsDirty] = useState(false);
+  const [policyModel, setPolicyModel] = useState<string>("");
 
   // Reset dirty state when modal is closed
   useEffect(() => {
@@ -35,18 +69,75 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   // Sync with props only if the form hasn't been touched by user
   useEffect(() => {
     if (isOpen && !isDirty) {
-      setFormData(currentSettings);
+      setFormData(withBlankSecrets(currentSettings));
       if (apiEndpoint) setLocalApiUrl(apiEndpoint);
     }
   }, [isOpen, currentSettings, apiEndpoint, isDirty]);
 
   if (!isOpen) return null;
 
+  const activePolicyModel = policyModel || models[0]?.id || "";
+
+  const secretPlaceholder = (field: SecretSetting, fallback: string) =>
+    currentSettings[field] ? "留空保持不变 (leave blank to keep)" : fallback;
+
   const handleChange = (field: keyof AppSettings, value: string | number) => {
     setIsDirty(true);
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleProviderChange = (model: string, provider: string) => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, modelProviders: { ...prev.modelProviders, [model]: provider } }));
+  };
+
+  // Empty input removes the override so the default applies again
+  const handleRetryPolicyChange = (model: string, field: keyof RetryPolicy, value: string) => {
+    setIsDirty(true);
+    setFormData((prev) => {
+      const policy = { ...prev.retryPolicies?.[model] };
+      if (value === "") delete policy[field];
+      else policy[field] = parseFloat(value);
+      return { ...prev, retryPolicies: { ...prev.retryPolicies, [model]: policy } };
+    });
+  };
+
+  const handleQuotaChange = (index: number, updates: Partial<QuotaRule>) => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, quotas: (prev.quotas || []).map((rule, i) => i === index ? { ...rule, ...updates } : rule) }));
+  };
+
+  const handleAddQuota = () => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, quotas: [...(prev.quotas || []), { period: "day", limit: 50 }] }));
+  };
+
+  const handleRemoveQuota = (index: number) => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, quotas: (prev.quotas || []).filter((_, i) => i !== index) }));
+  };
+
+  const handlePriceChange = (index: number, updates: Partial<PriceRule>) => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, prices: (prev.prices || []).map((rule, i) => i === index ? { ...rule, ...updates } : rule) }));
+  };
+
+  const handleAddPrice = () => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, prices: [...(prev.prices || []), { model: models[0]?.id || "", price: 0 }] }));
+  };
+
+  const handleRemovePrice = (index: number) => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, prices: (prev.prices || []).filter((_, i) => i !== index) }));
+  };
+
+  // No period means no budget
+  const handleBudgetChange = (period: string, limit: number) => {
+    setIsDirty(true);
+    setFormData((prev) => ({ ...prev, budget: period ? { period: period as BudgetRule["period"], limit } : null }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     // Save API Endpoint change
@@ -54,7 +145,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         onApiEndpointChange(localApiUrl);
     }
     // Save other settings
-    onSave(formData);
+    if (!readOnly) onSave(formData);
     onClose();
   };
 
@@ -106,6 +197,13 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
           <div className="h-px bg-slate-100" />
 
+          <fieldset disabled={readOnly} className="space-y-8">
+          {readOnly && (
+            <p className="text-xs text-slate-500 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg">
+              Only admins can change the settings below.
+            </p>
+          )}
+
           {/* API Keys Section */}
           <div className="space-y-4">
             <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
@@ -114,14 +212,12 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             </h3>
             
             <div className="space-y-1.5">
-              <label className="block text-sm font-medium text-slate-700">
-                极客智坊 API Key (GeekAI)
-              </label>
+              <SecretLabel label="极客智坊 API Key (GeekAI)" isSet={!!currentSettings.geekaiApiKey} />
               <input
                 type="password"
                 value={formData.geekaiApiKey}
                 onChange={(e) => handleChange("geekaiApiKey", e.target.value)}
-                placeholder="Enter your GeekAI API key (GEEKAI_API_KEY)..."
+                placeholder={secretPlaceholder("geekaiApiKey", "Enter your GeekAI API key (GEEKAI_API_KEY)...")}
                 className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
               />
             </div>
@@ -129,13 +225,30 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
           <div className="h-px bg-slate-100" />
 
-          {/* Aliyun OSS Configuration Section */}
+          {/* Input Storage Section */}
           <div className="space-y-4">
              <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
               <Cloud size={14} />
-              阿里云 OSS 配置 (Aliyun OSS)
+              输入图片存储 (Input Storage)
             </h3>
+
+            <div className="space-y-1.5">
+              <label className="block text-sm font-medium text-slate-700">存储方式 (Backend)</label>
+              <select
+                value={formData.storageBackend || "oss"}
+                onChange={(e) => handleChange("storageBackend", e.target.value)}
+                className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+              >
+                {STORAGE_BACKENDS.map((b) => (
+                  <option key={b.value} value={b.value}>{b.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500">
+                How input images are made reachable for the model provider.
+              </p>
+            </div>
             
+            {(formData.storageBackend || "oss") === "oss" && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-1.5">
                     <label className="block text-sm font-medium text-slate-700">Access Key ID</label>
@@ -148,12 +261,12 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                     />
                 </div>
                 <div className="space-y-1.5">
-                    <label className="block text-sm font-medium text-slate-700">Access Key Secret</label>
+                    <SecretLabel label="Access Key Secret" isSet={!!currentSettings.ossAccessKeySecret} />
                     <input
                         type="password"
                         value={formData.ossAccessKeySecret}
                         onChange={(e) => handleChange("ossAccessKeySecret", e.target.value)}
-                        placeholder="Secret..."
+                        placeholder={secretPlaceholder("ossAccessKeySecret", "Secret...")}
                         className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
                     />
                 </div>
@@ -188,6 +301,358 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                     />
                 </div>
             </div>
+            )}
+
+            {formData.storageBackend === "s3" && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1.5">
+                    <label className="block text-sm font-medium text-slate-700">Endpoint</label>
+                    <input
+                        type="text"
+                        value={formData.s3Endpoint}
+                        onChange={(e) => handleChange("s3Endpoint", e.target.value)}
+                        placeholder="http://localhost:9000"
+                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all font-mono"
+                    />
+                </div>
+                <div className="space-y-1.5">
+                    <label className="block text-sm font-medium text-slate-700">Region</label>
+                    <input
+                        type="text"
+                        value={formData.s3Region}
+                        onChange={(e) => handleChange("s3Region", e.target.value)}
+                        placeholder="us-east-1"
+                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                    />
+                </div>
+                <div className="space-y-1.5">
+                    <label className="block text-sm font-medium text-slate-700">Access Key ID</label>
+                    <input
+                        type="password"
+                        value={formData.s3AccessKeyId}
+                        onChange={(e) => handleChange("s3AccessKeyId", e.target.value)}
+                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                    />
+                </div>
+                <div className="space-y-1.5">
+                    <SecretLabel label="Secret Access Key" isSet={!!currentSettings.s3SecretAccessKey} />
+                    <input
+                        type="password"
+                        value={formData.s3SecretAccessKey}
+                        onChange={(e) => handleChange("s3SecretAccessKey", e.target.value)}
+                        placeholder={secretPlaceholder("s3SecretAccessKey", "")}
+                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                    />
+                </div>
+                <div className="space-y-1.5">
+                    <label className="block text-sm font-medium text-slate-700">Bucket Name</label>
+                    <input
+                        type="text"
+                        value={formData.s3Bucket}
+                        onChange={(e) => handleChange("s3Bucket", e.target.value)}
+                        placeholder="my-bucket-name"
+                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                    />
+                </div>
+                <div className="space-y-1.5">
+                    <label className="block text-sm font-medium text-slate-700">存储目录 (Folder)</label>
+                    <input
+                        type="text"
+                        value={formData.s3Folder}
+                        onChange={(e) => handleChange("s3Folder", e.target.value)}
+                        placeholder="doll-workflow/"
+                        className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all font-mono"
+                    />
+                </div>
+            </div>
+            )}
+
+            {formData.storageBackend === "public-url" && (
+            <div className="space-y-1.5">
+                <label className="block text-sm font-medium text-slate-700">Public Base URL</label>
+                <input
+                    type="text"
+                    value={formData.publicBaseUrl}
+                    onChange={(e) => handleChange("publicBaseUrl", e.target.value)}
+                    placeholder="https://doll.example.com"
+                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all font-mono"
+                />
+                <p className="text-xs text-slate-500">
+                  Externally reachable address of this backend. Inputs are linked as <code>/files/inputs/...</code> under it.
+                </p>
+            </div>
+            )}
+
+            {formData.storageBackend === "inline" && (
+              <p className="text-xs text-slate-500">
+                Images are embedded in the request as base64 data URIs. Only use this with providers that accept them.
+              </p>
+            )}
+          </div>
+
+          <div className="h-px bg-slate-100" />
+
+          {/* Providers Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+              <Boxes size={14} />
+              模型服务商 (Model Providers)
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {models.map(({ id: model }) => (
+                <div key={model} className="flex items-center justify-between gap-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg">
+                  <span className="text-sm font-mono text-slate-700 truncate">{model}</span>
+                  <select
+                    value={formData.modelProviders?.[model] || "geekai"}
+                    onChange={(e) => handleProviderChange(model, e.target.value)}
+                    className="text-sm font-medium text-slate-700 bg-transparent outline-none cursor-pointer hover:text-blue-600"
+                  >
+                    {PROVIDERS.map((p) => (
+                      <option key={p} value={p}>{p}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <label className="block text-sm font-medium text-slate-700">Mock 延迟 (Delay, ms)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.mockDelayMs}
+                  onChange={(e) => handleChange("mockDelayMs", parseInt(e.target.value) || 0)}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <label className="block text-sm font-medium text-slate-700">Mock 失败率 (Failure Rate, 0-1)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={formData.mockFailureRate}
+                  onChange={(e) => handleChange("mockFailureRate", parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              The mock provider returns local placeholder images without calling any paid API.
+            </p>
+          </div>
+
+          <div className="h-px bg-slate-100" />
+
+          {/* Retry Policy Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+               <Timer size={14} />
+               超时与重试 (Timeouts & Retries)
+            </h3>
+
+            <div className="space-y-1.5">
+              <label className="block text-sm font-medium text-slate-700">模型 (Model)</label>
+              <select
+                value={activePolicyModel}
+                onChange={(e) => setPolicyModel(e.target.value)}
+                className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+              >
+                {models.map(({ id }) => (
+                  <option key={id} value={id}>{id}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {RETRY_POLICY_FIELDS.map(({ field, label, step }) => (
+                <div key={field} className="space-y-1.5">
+                  <label className="block text-xs font-medium text-slate-700">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={step || "1"}
+                    value={formData.retryPolicies?.[activePolicyModel]?.[field] ?? ""}
+                    placeholder={String(DEFAULT_RETRY_POLICY[field])}
+                    onChange={(e) => handleRetryPolicyChange(activePolicyModel, field, e.target.value)}
+                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              Leave a field empty to use the default shown. A task fails with a timeout error once it exceeds these limits.
+            </p>
+          </div>
+
+          <div className="h-px bg-slate-100" />
+
+          {/* Quota Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+               <Gauge size={14} />
+               生成配额 (Generation Quotas)
+            </h3>
+
+            {(formData.quotas || []).map((rule, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                <select
+                  value={rule.period}
+                  onChange={(e) => handleQuotaChange(index, { period: e.target.value as QuotaRule["period"] })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                >
+                  <option value="day">每天 (Daily)</option>
+                  <option value="month">每月 (Monthly)</option>
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  value={rule.limit}
+                  onChange={(e) => handleQuotaChange(index, { limit: parseInt(e.target.value) || 0 })}
+                  title="Tasks allowed per period"
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                />
+                <input
+                  type="text"
+                  value={rule.user || ""}
+                  onChange={(e) => handleQuotaChange(index, { user: e.target.value || undefined })}
+                  placeholder="每个用户 (every user)"
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                />
+                <select
+                  value={rule.model || ""}
+                  onChange={(e) => handleQuotaChange(index, { model: e.target.value || undefined })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                >
+                  <option value="">所有模型 (all models)</option>
+                  {models.map(({ id }) => (
+                    <option key={id} value={id}>{id}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveQuota(index)}
+                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Remove rule"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={handleAddQuota}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+            >
+              <Plus size={14} />
+              Add Rule
+            </button>
+            <p className="text-xs text-slate-500">
+              Tasks each user may start per calendar day or month. Every matching rule applies; failed and cancelled tasks do not count.
+            </p>
+          </div>
+
+          <div className="h-px bg-slate-100" />
+
+          {/* Pricing Section */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+               <Coins size={14} />
+               价格与预算 (Pricing & Budget)
+            </h3>
+
+            {(formData.prices || []).map((rule, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                <select
+                  value={rule.model}
+                  onChange={(e) => handlePriceChange(index, { model: e.target.value, size: undefined })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                >
+                  {/* Keep a model that is no longer in the catalog selectable */}
+                  {(models.some((m) => m.id === rule.model) ? models : [{ id: rule.model }, ...models]).map(({ id }) => (
+                    <option key={id} value={id}>{id}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.size || ""}
+                  onChange={(e) => handlePriceChange(index, { size: e.target.value || undefined })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                >
+                  <option value="">所有尺寸 (any size)</option>
+                  {(models.find((m) => m.id === rule.model)?.sizes || []).map((size) => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rule.price}
+                  onChange={(e) => handlePriceChange(index, { price: parseFloat(e.target.value) || 0 })}
+                  title="Price per generated image"
+                  className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemovePrice(index)}
+                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Remove price"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={handleAddPrice}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+            >
+              <Plus size={14} />
+              Add Price
+            </button>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1.5">
+                <label className="block text-sm font-medium text-slate-700">货币单位 (Currency)</label>
+                <input
+                  type="text"
+                  value={formData.currency}
+                  onChange={(e) => handleChange("currency", e.target.value)}
+                  placeholder="¥"
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <label className="block text-sm font-medium text-slate-700">预算周期 (Budget Period)</label>
+                <select
+                  value={formData.budget?.period || ""}
+                  onChange={(e) => handleBudgetChange(e.target.value, formData.budget?.limit ?? 0)}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all"
+                >
+                  <option value="">无预算 (No budget)</option>
+                  <option value="day">每天 (Daily)</option>
+                  <option value="month">每月 (Monthly)</option>
+                </select>
+              </div>
+              <div className="space-y-1.5">
+                <label className="block text-sm font-medium text-slate-700">预算上限 (Budget Limit)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.budget?.limit ?? ""}
+                  disabled={!formData.budget}
+                  onChange={(e) => handleBudgetChange(formData.budget?.period || "", parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all disabled:opacity-50"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Prices are per generated image; unpriced models cost nothing in the summary. Once the budget is spent, new tasks are refused for the rest of the period.
+            </p>
           </div>
 
           <div className="h-px bg-slate-100" />
@@ -232,6 +697,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               </p>
             </div>
           </div>
+          </fieldset>
 
           <div className="pt-4 flex items-center justify-end gap-3 sticky bottom-0 bg-white border-t border-slate-100 py-4 mt-4">
             <button
@@ -246,7 +712,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-all active:scale-95"
             >
               <Save size={16} />
-              Save Configuration
+              {readOnly ? "Save Endpoint" : "Save Configuration"}
             </button>
           </div>
         </form>
@@ -1,43 +1,117 @@
-import React, { useState, useMemo } from "react";
-import { X, List, CheckCircle2, Clock, XCircle, ChevronDown, ChevronUp, Terminal } from "lucide-react";
-import { TaskItem } from "../types";
+import React, { useState, useMemo, useEffect } from "react";
+import { X, List, CheckCircle2, Clock, XCircle, ChevronDown, ChevronUp, Terminal, Ban, Hourglass, RotateCcw, Shuffle, Layers, Workflow, ArrowRight, Search } from "lucide-react";
+import { TaskItem, BatchItem, PipelineRun, PipelineStep, Page, TaskFilters, DEFAULT_TASK_FILTERS, ModelConfig, WorkflowStage } from "../types";
 
 interface TaskListModalProps {
   isOpen: boolean;
   onClose: () => void;
-  tasks: TaskItem[];
+  // Current page of GET /api/tasks; filtering, sorting and paging happen on the server
+  page: Page<TaskItem> | null;
+  pageNumber: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+  filters: TaskFilters;
+  onFiltersChange: (filters: TaskFilters) => void;
+  models: ModelConfig[];
+  // Expanded task with logs, from GET /api/tasks/:id
+  taskDetail: TaskItem | null;
+  onExpandTask: (taskId: string | null) => void;
+  recentTasks: TaskItem[]; // Used for batch progress
+  batches?: BatchItem[];
+  pipelines?: PipelineRun[];
+  onCancelTask?: (task: TaskItem) => void;
+  // Whether the user may cancel this task; all tasks when omitted
+  canCancelTask?: (task: TaskItem) => boolean;
+  onRetryTask?: (task: TaskItem) => void;
+  onRemixTask?: (task: TaskItem) => void;
+  currency?: string; // Unit of task costs
 }
 
-const ITEMS_PER_PAGE = 50;
+const STATUS_OPTIONS = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+const STEP_STATUS_STYLES: Record<PipelineStep['status'], string> = {
+  waiting: 'bg-slate-100 text-slate-500',
+  skipped: 'bg-slate-100 text-slate-400 line-through',
+  pending: 'bg-slate-100 text-slate-600',
+  processing: 'bg-blue-50 text-blue-700',
+  completed: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+  cancelled: 'bg-slate-200 text-slate-600',
+};
 
 export const TaskListModal: React.FC<TaskListModalProps> = ({
   isOpen,
   onClose,
-  tasks,
+  page,
+  pageNumber,
+  pageSize,
+  onPageChange,
+  filters,
+  onFiltersChange,
+  models,
+  taskDetail,
+  onExpandTask,
+  recentTasks,
+  batches = [],
+  pipelines = [],
+  onCancelTask,
+  canCancelTask,
+  onRetryTask,
+  onRemixTask,
+  currency = "",
 }) => {
-  const [currentPage, setCurrentPage] = useState(1);
   const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
+  const [search, setSearch] = useState(filters.q);
 
-  React.useEffect(() => {
+  useEffect(() => {
     if (isOpen) {
-        setCurrentPage(1);
+        onPageChange(1);
         setExpandedTaskId(null);
     }
   }, [isOpen]);
 
-  const totalPages = Math.ceil(tasks.length / ITEMS_PER_PAGE);
+  // Search as you type, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+        if (search !== filters.q) onFiltersChange({ ...filters, q: search });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search, filters, onFiltersChange]);
 
-  // Sort tasks by startTime descending (newest first)
-  const currentTasks = useMemo(() => {
-    const sorted = [...tasks].sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
-    const start = (currentPage - 1) * ITEMS_PER_PAGE;
-    return sorted.slice(start, start + ITEMS_PER_PAGE);
-  }, [tasks, currentPage]);
+  const currentTasks = page?.items || [];
+  const total = page?.total || 0;
+  const totalPages = Math.ceil(total / pageSize);
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(DEFAULT_TASK_FILTERS);
+
+  // Aggregate child task status per batch
+  const batchSummaries = useMemo(() => {
+    const byId = new Map(recentTasks.map(t => [t.id, t]));
+    return batches.map(batch => {
+      const children = batch.taskIds.map(id => byId.get(id)).filter((t): t is TaskItem => !!t);
+      const count = (status: string) => children.filter(t => t.status === status).length;
+      return {
+        batch,
+        total: batch.taskIds.length,
+        completed: count('completed'),
+        failed: count('failed'),
+        cancelled: count('cancelled'),
+        active: count('pending') + count('processing'),
+      };
+    });
+  }, [recentTasks, batches]);
 
   if (!isOpen) return null;
 
   const toggleExpand = (id: string) => {
-      setExpandedTaskId(prev => prev === id ? null : id);
+      const next = expandedTaskId === id ? null : id;
+      setExpandedTaskId(next);
+      onExpandTask(next);
+  };
+
+  const setFilter = (key: keyof TaskFilters, value: string) => onFiltersChange({ ...filters, [key]: value });
+
+  const clearFilters = () => {
+      setSearch('');
+      onFiltersChange(DEFAULT_TASK_FILTERS);
   };
 
   const getStatusBadge = (status: string) => {
@@ -54,6 +128,18 @@ export const TaskListModal: React.FC<TaskListModalProps> = ({
             <XCircle size={12} /> Failed
           </span>
         );
+      case 'cancelled':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-200 text-slate-600">
+            <Ban size={12} /> Cancelled
+          </span>
+        );
+      case 'pending':
+        return (
+          <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+            <Hourglass size={12} /> Queued
+          </span>
+        );
       default:
         return (
           <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
@@ -86,6 +172,92 @@ export const TaskListModal: React.FC<TaskListModalProps> = ({
           </button>
         </div>
 
+        {/* Filters */}
+        <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2 text-xs">
+            <div className="flex items-center gap-1 px-2 py-1.5 bg-white border border-slate-200 rounded flex-1 min-w-[160px]">
+                <Search size={14} className="text-slate-400" />
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search id, type, model, image name..."
+                    className="flex-1 outline-none bg-transparent"
+                />
+            </div>
+            <select value={filters.status} onChange={(e) => setFilter('status', e.target.value)} className="px-2 py-1.5 bg-white border border-slate-200 rounded outline-none">
+                <option value="">All statuses</option>
+                {STATUS_OPTIONS.map(status => <option key={status} value={status}>{status}</option>)}
+            </select>
+            <select value={filters.stage} onChange={(e) => setFilter('stage', e.target.value)} className="px-2 py-1.5 bg-white border border-slate-200 rounded outline-none">
+                <option value="">All stages</option>
+                {Object.values(WorkflowStage).map(stage => <option key={stage} value={stage}>{stage.replace(/_/g, ' ')}</option>)}
+            </select>
+            <select value={filters.model} onChange={(e) => setFilter('model', e.target.value)} className="px-2 py-1.5 bg-white border border-slate-200 rounded outline-none">
+                <option value="">All models</option>
+                {models.map(m => <option key={m.id} value={m.id}>{m.id}</option>)}
+            </select>
+            <input type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} className="px-2 py-1 bg-white border border-slate-200 rounded outline-none" title="From" />
+            <span className="text-slate-400">–</span>
+            <input type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} className="px-2 py-1 bg-white border border-slate-200 rounded outline-none" title="To (inclusive)" />
+            <select value={filters.sort} onChange={(e) => setFilter('sort', e.target.value)} className="px-2 py-1.5 bg-white border border-slate-200 rounded outline-none">
+                <option value="newest">Newest first</option>
+                <option value="oldest">Oldest first</option>
+            </select>
+            {hasFilters && (
+                <button onClick={clearFilters} className="px-2 py-1.5 text-slate-500 hover:text-slate-700">
+                    Clear
+                </button>
+            )}
+        </div>
+
+        {/* Batches */}
+        {batchSummaries.length > 0 && (
+            <div className="px-6 py-3 border-b border-slate-100 max-h-40 overflow-y-auto space-y-2">
+                {batchSummaries.map(({ batch, total, completed, failed, cancelled, active }) => (
+                    <div key={batch.id} className="flex items-center gap-3 text-xs">
+                        <Layers size={14} className="text-slate-400 flex-shrink-0" />
+                        <span className="w-56 truncate font-medium text-slate-700" title={batch.id}>
+                            {batch.stage.replace(/_/g, ' ').toUpperCase()} · {batch.mode}
+                        </span>
+                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden flex">
+                            <div className="bg-green-500" style={{ width: `${total ? (completed / total) * 100 : 0}%` }} />
+                            <div className="bg-red-400" style={{ width: `${total ? (failed / total) * 100 : 0}%` }} />
+                            <div className="bg-slate-300" style={{ width: `${total ? (cancelled / total) * 100 : 0}%` }} />
+                        </div>
+                        <span className="w-48 text-right text-slate-500 font-mono">
+                            {completed}/{total} done{failed > 0 ? `, ${failed} failed` : ''}{active > 0 ? `, ${active} active` : ''}
+                        </span>
+                        <span className="w-36 text-right text-slate-400 whitespace-nowrap">{batch.createdAt}</span>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        {/* Pipelines */}
+        {pipelines.length > 0 && (
+            <div className="px-6 py-3 border-b border-slate-100 max-h-40 overflow-y-auto space-y-2">
+                {pipelines.map(run => (
+                    <div key={run.id} className="flex items-center gap-3 text-xs">
+                        <Workflow size={14} className="text-slate-400 flex-shrink-0" />
+                        <span className="w-56 truncate font-medium text-slate-700" title={run.id}>
+                            {run.name} · {run.status}
+                        </span>
+                        <div className="flex-1 flex items-center gap-1 flex-wrap">
+                            {run.steps.map((step, i) => (
+                                <React.Fragment key={i}>
+                                    {i > 0 && <ArrowRight size={12} className="text-slate-300" />}
+                                    <span className={`px-2 py-0.5 rounded ${STEP_STATUS_STYLES[step.status]}`} title={step.taskId}>
+                                        {step.stage.replace(/_/g, ' ')}: {step.status}
+                                    </span>
+                                </React.Fragment>
+                            ))}
+                        </div>
+                        <span className="w-36 text-right text-slate-400 whitespace-nowrap">{run.createdAt}</span>
+                    </div>
+                ))}
+            </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-auto p-0">
             <table className="w-full text-left text-sm border-collapse table-fixed">
@@ -99,13 +271,15 @@ export const TaskListModal: React.FC<TaskListModalProps> = ({
                         <th className="w-32 px-4 py-3 border-b border-slate-200">Output</th>
                         <th className="w-40 px-4 py-3 border-b border-slate-200">Start Time</th>
                         <th className="w-24 px-4 py-3 border-b border-slate-200">Duration</th>
+                        <th className="w-24 px-4 py-3 border-b border-slate-200">Cost</th>
+                        <th className="w-36 px-4 py-3 border-b border-slate-200"></th>
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
                     {currentTasks.length === 0 ? (
                         <tr>
-                            <td colSpan={8} className="px-6 py-12 text-center text-slate-400">
-                                No tasks found in history.
+                            <td colSpan={10} className="px-6 py-12 text-center text-slate-400">
+                                {hasFilters ? "No tasks match these filters." : "No tasks found in history."}
                             </td>
                         </tr>
                     ) : (
@@ -115,7 +289,14 @@ export const TaskListModal: React.FC<TaskListModalProps> = ({
                                     <td className="px-4 py-3 text-center cursor-pointer text-slate-400">
                                         {expandedTaskId === task.id ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
                                     </td>
-                                    <td className="px-4 py-3 font-medium text-slate-700 truncate" title={task.type}>{task.type}</td>
+                                    <td className="px-4 py-3 font-medium text-slate-700 truncate" title={task.type}>
+                                        {task.type}
+                                        {task.owner && <div className="text-[10px] font-normal text-slate-400 truncate">by {task.owner}</div>}
+                                        {task.batchId && <div className="text-[10px] font-normal text-slate-400 truncate" title={task.batchId}>{task.batchId}</div>}
+                                        {task.pipelineId && <div className="text-[10px] font-normal text-slate-400 truncate" title={task.pipelineId}>{task.pipelineId}</div>}
+                                        {task.duplicateOf && <div className="text-[10px] font-normal text-amber-600 truncate" title={`Submitted while ${task.duplicateOf} was still active`}>duplicate of {task.duplicateOf}</div>}
+                                        {task.cachedFrom && <div className="text-[10px] font-normal text-emerald-600 truncate" title={`Outputs reused from ${task.cachedFrom}, provider not called`}>cached from {task.cachedFrom}</div>}
+                                    </td>
                                     <td className="px-4 py-3">{getStatusBadge(task.status)}</td>
                                     <td className="px-4 py-3 text-slate-500 truncate" title={task.model}>{task.model}</td>
                                     <td className="px-4 py-3">
@@ -142,21 +323,64 @@ export const TaskListModal: React.FC<TaskListModalProps> = ({
                                     </td>
                                     <td className="px-4 py-3 text-slate-500 whitespace-nowrap">{task.startTime}</td>
                                     <td className="px-4 py-3 text-slate-500 font-mono">{task.duration || '-'}</td>
+                                    <td className="px-4 py-3 text-slate-500 font-mono whitespace-nowrap" title={task.actualCost !== undefined ? "Reported by the provider" : "Estimated from the price table"}>
+                                        {task.actualCost !== undefined ? `${currency}${task.actualCost}` : task.estimatedCost !== undefined ? `≈ ${currency}${task.estimatedCost}` : '-'}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <div className="flex items-center gap-1">
+                                            {onCancelTask && (canCancelTask?.(task) ?? true) && (task.status === 'pending' || task.status === 'processing') && (
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); onCancelTask(task); }}
+                                                    className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-red-600 bg-red-50 border border-red-100 rounded hover:bg-red-100 transition-colors"
+                                                    title="Cancel Task"
+                                                >
+                                                    <Ban size={12} /> 取消
+                                                </button>
+                                            )}
+                                            {task.params && task.status !== 'pending' && task.status !== 'processing' && (
+                                                <>
+                                                    {onRetryTask && (
+                                                        <button
+                                                            onClick={(e) => { e.stopPropagation(); onRetryTask(task); }}
+                                                            className="p-1.5 text-slate-500 bg-white border border-slate-200 rounded hover:text-blue-600 hover:border-blue-300 transition-colors"
+                                                            title="Retry with the same inputs"
+                                                        >
+                                                            <RotateCcw size={12} />
+                                                        </button>
+                                                    )}
+                                                    {onRemixTask && (
+                                                        <button
+                                                            onClick={(e) => { e.stopPropagation(); onRemixTask(task); }}
+                                                            className="p-1.5 text-slate-500 bg-white border border-slate-200 rounded hover:text-purple-600 hover:border-purple-300 transition-colors"
+                                                            title="Remix: change model, size or prompt"
+                                                        >
+                                                            <Shuffle size={12} />
+                                                        </button>
+                                                    )}
+                                                </>
+                                            )}
+                                        </div>
+                                    </td>
                                 </tr>
                                 
                                 {/* Expanded Details Row */}
                                 {expandedTaskId === task.id && (
                                     <tr className="bg-slate-50/50">
-                                        <td colSpan={8} className="px-4 py-4">
+                                        <td colSpan={10} className="px-4 py-4">
                                             <div className="bg-slate-900 rounded-lg p-4 font-mono text-xs text-slate-300 shadow-inner overflow-hidden">
                                                 <div className="flex items-center gap-2 mb-2 text-slate-400 border-b border-slate-700 pb-2">
                                                     <Terminal size={14} />
                                                     <span className="font-semibold uppercase tracking-wider">Execution Log</span>
-                                                    <span className="text-slate-600 ml-auto">{task.id}</span>
+                                                    {task.parentTaskId && (
+                                                        <span className="text-slate-500 ml-auto">from {task.parentTaskId}</span>
+                                                    )}
+                                                    <span className={`text-slate-600 ${task.parentTaskId ? 'ml-4' : 'ml-auto'}`}>{task.id}</span>
                                                 </div>
                                                 <div className="max-h-[300px] overflow-y-auto space-y-1 pr-2">
-                                                    {task.logs && task.logs.length > 0 ? (
-                                                        task.logs.map((log, idx) => (
+                                                    {taskDetail?.id !== task.id ? (
+                                                        <div className="text-slate-500 italic">Loading logs...</div>
+                                                    ) : taskDetail.logs && taskDetail.logs.length > 0 ? (
+                                                        taskDetail.logs.map((log, idx) => (
                                                             <div key={idx} className="whitespace-pre-wrap break-all hover:text-white transition-colors">
                                                                 <span className="text-slate-500 mr-2">{log.substring(0, log.indexOf(']') + 1)}</span>
                                                                 <span className={log.includes('ERROR') || log.includes('Failed') ? 'text-red-400' : 'text-slate-300'}>
@@ -188,23 +412,23 @@ export const TaskListModal: React.FC<TaskListModalProps> = ({
         {/* Footer / Pagination */}
         <div className="px-6 py-4 border-t border-slate-100 bg-slate-50 rounded-b-xl flex items-center justify-between">
             <span className="text-xs text-slate-500">
-                Total tasks: {tasks.length}
+                Total tasks: {total}
             </span>
             {totalPages > 1 && (
                 <div className="flex gap-2">
                     <button
-                        disabled={currentPage === 1}
-                        onClick={() => setCurrentPage(p => p - 1)}
+                        disabled={pageNumber === 1}
+                        onClick={() => onPageChange(pageNumber - 1)}
                         className="px-3 py-1 text-xs bg-white border border-slate-200 rounded hover:bg-slate-50 disabled:opacity-50"
                     >
                         Previous
                     </button>
                     <span className="text-xs flex items-center px-2 text-slate-600">
-                        Page {currentPage} of {totalPages}
+                        Page {pageNumber} of {totalPages}
                     </span>
                     <button
-                        disabled={currentPage === totalPages}
-                        onClick={() => setCurrentPage(p => p + 1)}
+                        disabled={pageNumber >= totalPages}
+                        onClick={() => onPageChange(pageNumber + 1)}
                         className="px-3 py-1 text-xs bg-white border border-slate-200 rounded hover:bg-slate-50 disabled:opacity-50"
                     >
                         Next
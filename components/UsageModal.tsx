@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from "react";
+import { X, Coins } from "lucide-react";
+import { UsageSummary, UsageRow } from "../types";
+
+interface UsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Month to date, as shown in the header
+  summary: UsageSummary | null;
+  // Another date range; resolves to null when loading failed (App reports it)
+  onLoadRange: (from: string, to: string) => Promise<UsageSummary | null>;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  hairstyle_extraction: "发型提取 (Hairstyle)",
+  doll_assembly: "娃娃组装 (Assembly)",
+  doll_replacement: "娃娃替换 (Replacement)",
+};
+
+const inputClass = "px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all";
+
+const UsageTable: React.FC<{ title: string; rows: UsageRow[]; currency: string; label?: (key: string) => string }> = ({ title, rows, currency, label }) => (
+  <div className="space-y-2">
+    <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-xs text-slate-400">No tasks.</p>
+    ) : (
+      <table className="w-full text-sm border border-slate-200 rounded-lg overflow-hidden">
+        <tbody className="divide-y divide-slate-100">
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="px-3 py-1.5 text-slate-700 truncate">{row.key ? (label ? label(row.key) : row.key) : "—"}</td>
+              <td className="px-3 py-1.5 text-right text-slate-400 text-xs whitespace-nowrap">{row.tasks} tasks</td>
+              <td className="px-3 py-1.5 text-right font-mono text-slate-700 whitespace-nowrap">{currency}{row.cost}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, summary, onLoadRange }) => {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  // Set while a custom range is shown instead of month to date
+  const [rangeSummary, setRangeSummary] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFrom("");
+      setTo("");
+      setRangeSummary(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const shown = rangeSummary || summary;
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!from && !to) return setRangeSummary(null);
+    const result = await onLoadRange(from, to);
+    if (result) setRangeSummary(result);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 bg-slate-50 sticky top-0 z-10">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Coins size={20} className="text-amber-500" />
+            费用统计 (Usage & Spend)
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <form onSubmit={handleApply} className="flex flex-wrap items-center gap-2">
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} title="From" />
+            <span className="text-slate-400">→</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} title="To (inclusive)" />
+            <button type="submit" className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm transition-colors">
+              Apply
+            </button>
+            <span className="text-xs text-slate-400">{rangeSummary ? "Custom range" : "This month so far"}</span>
+          </form>
+
+          {!shown ? (
+            <p className="text-sm text-slate-400">Loading...</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                  <div className="text-xs text-slate-500">Spend</div>
+                  <div className="text-2xl font-bold text-slate-800 font-mono">{shown.currency}{shown.total}</div>
+                </div>
+                <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                  <div className="text-xs text-slate-500">Tasks</div>
+                  <div className="text-2xl font-bold text-slate-800 font-mono">{shown.tasks}</div>
+                </div>
+                <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                  <div className="text-xs text-slate-500">
+                    Budget {shown.budget ? (shown.budget.period === "day" ? "today" : "this month") : ""}
+                  </div>
+                  {shown.budget ? (
+                    <>
+                      <div className={`text-2xl font-bold font-mono ${shown.budget.remaining === 0 ? "text-red-600" : "text-slate-800"}`}>
+                        {shown.currency}{shown.budget.spent} <span className="text-sm font-normal text-slate-400">/ {shown.budget.limit}</span>
+                      </div>
+                      <div className="mt-2 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${shown.budget.remaining === 0 ? "bg-red-500" : "bg-amber-500"}`}
+                          style={{ width: `${shown.budget.limit > 0 ? Math.min(100, (shown.budget.spent / shown.budget.limit) * 100) : 100}%` }}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-sm text-slate-400 mt-2">No budget set</div>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <UsageTable title="按天 (By Day)" rows={shown.byDay} currency={shown.currency} />
+                <UsageTable title="按模型 (By Model)" rows={shown.byModel} currency={shown.currency} />
+                <UsageTable title="按阶段 (By Stage)" rows={shown.byStage} currency={shown.currency} label={(key) => STAGE_LABELS[key] || key} />
+                <UsageTable title="按用户 (By User)" rows={shown.byUser} currency={shown.currency} />
+              </div>
+              <p className="text-xs text-slate-400">
+                A task counts with the cost its provider reported, otherwise with the estimate from the price table. Failed and cancelled tasks only count when the provider charged them.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
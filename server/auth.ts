@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { DB } from './db';
+import { UserAccount, ApiToken, Role } from './types';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'dw_session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const API_TOKEN_PREFIX = 'dwt_';
+
+// Reachable without signing in, relative to /api
+const PUBLIC_API_PATHS = ['/health', '/auth/session', '/auth/login', '/auth/setup'];
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+// --- Passwords ---
+
+// Stored as scrypt:<salt>:<hash>, hex encoded
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt:${salt}:${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, expected] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const hash = await scrypt(password, salt, 64);
+  const expectedHash = Buffer.from(expected, 'hex');
+  return hash.length === expectedHash.length && crypto.timingSafeEqual(hash, expectedHash);
+};
+
+// Returns an error message, or null if the new account details are acceptable
+export const checkNewCredentials = (username: string, password: string): string | null => {
+  if (!username || !/^[A-Za-z0-9_.-]{2,32}$/.test(username)) {
+    return "Username must be 2-32 characters: letters, digits, '_', '.' or '-'.";
+  }
+  return checkNewPassword(password);
+};
+
+export const checkNewPassword = (password: string): string | null => {
+  if (!password || password.length < 8) return "Password must be at least 8 characters.";
+  return null;
+};
+
+export const createUser = async (username: string, password: string, role: Role): Promise<UserAccount> => {
+  const passwordHash = await hashPassword(password);
+  if (await DB.getCredentials(username)) throw new Error(`Username ${username} is already taken.`);
+  const user: UserAccount = { id: `user-${uuidv4().substr(0, 8)}`, username, role, createdAt: new Date().toLocaleString() };
+  await DB.addUser(user, passwordHash);
+  return user;
+};
+
+// The first admin; null if an account exists by the time the password is hashed
+export const createFirstAdmin = async (username: string, password: string): Promise<UserAccount | null> => {
+  const passwordHash = await hashPassword(password);
+  const user: UserAccount = { id: `user-${uuidv4().substr(0, 8)}`, username, role: 'admin', createdAt: new Date().toLocaleString() };
+  return await DB.addFirstUser(user, passwordHash) ? user : null;
+};
+
+// --- Sessions & API Tokens ---
+// Both are random strings handed out once; only their sha256 is stored.
+
+export const createSession = async (user: UserAccount): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await DB.addSession(sha256(token), user.id, Date.now() + SESSION_TTL_MS);
+  return token;
+};
+
+export const endSession = async (token: string) => DB.deleteSession(sha256(token));
+
+export const endOtherSessions = async (user: UserAccount, token: string) => DB.deleteOtherSessions(user.id, sha256(token));
+
+export const createApiToken = async (user: UserAccount, name: string): Promise<{ token: string; record: ApiToken }> => {
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(24).toString('base64url');
+  const record: ApiToken = {
+    id: `tok-${uuidv4().substr(0, 8)}`,
+    userId: user.id,
+    name,
+    prefix: token.substr(0, API_TOKEN_PREFIX.length + 4),
+    createdAt: new Date().toLocaleString(),
+  };
+  await DB.addApiToken(record, sha256(token));
+  return { token, record };
+};
+
+export const readSessionCookie = (req: any): string | undefined => {
+  const cookies: string = req.headers.cookie || '';
+  for (const part of cookies.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+};
+
+// The caller, from an "Authorization: Bearer" API token or else the session cookie
+export const authenticate = async (req: any): Promise<UserAccount | null> => {
+  const header: string = req.headers.authorization || '';
+  if (header.startsWith('Bearer ')) return DB.getApiTokenUser(sha256(header.slice(7).trim()));
+  const session = readSessionCookie(req);
+  return session ? DB.getSessionUser(sha256(session)) : null;
+};
+
+// --- Signed File Links ---
+// For providers that fetch inputs from this server (public-url storage): the link carries an
+// expiry and an HMAC of path and expiry, and works without a session until it expires.
+// The key only lives in memory, so a restart invalidates links handed out before it.
+
+const FILE_LINK_KEY = crypto.randomBytes(32);
+const FILE_LINK_TTL_MS = 6 * 3600 * 1000;
+
+const fileLinkSignature = (filePath: string, expires: number) =>
+  crypto.createHmac('sha256', FILE_LINK_KEY).update(`${filePath}\n${expires}`).digest('base64url');
+
+// A /files path (URL-encoded, as requested) with the query string that opens it to anyone
+export const signFilePath = (filePath: string): string => {
+  const expires = Date.now() + FILE_LINK_TTL_MS;
+  return `${filePath}?expires=${expires}&signature=${fileLinkSignature(filePath, expires)}`;
+};
+
+const hasFileLinkSignature = (req: any): boolean => {
+  const expires = Number(req.query.expires);
+  const signature = Buffer.from(String(req.query.signature || ''));
+  if (!expires || expires < Date.now()) return false;
+  const expected = Buffer.from(fileLinkSignature(req.originalUrl.split('?')[0], expires));
+  return signature.length === expected.length && crypto.timingSafeEqual(signature, expected);
+};
+
+// Mounted on /api and /files: sets req.user, or answers 401. Signed file links need no user.
+export const requireAuth = async (req: any, res: any, next: any) => {
+  if (req.baseUrl === '/api' && PUBLIC_API_PATHS.includes(req.path)) return next();
+  if (req.baseUrl === '/files' && hasFileLinkSignature(req)) return next();
+  try {
+    const user = await authenticate(req);
+    if (!user) return res.status(401).json({ message: "Sign in required" });
+    req.user = user;
+    next();
+  } catch (e: any) {
+    console.error("Auth Error:", e);
+    res.status(500).json({ message: "Authentication failed" });
+  }
+};
+
+// Route guard after requireAuth, e.g. app.post('/api/config', requireRole('admin'), ...)
+export const requireRole = (...roles: Role[]) => (req: any, res: any, next: any) => {
+  if (roles.includes(req.user?.role)) return next();
+  res.status(403).json({ message: `Requires the ${roles.join(' or ')} role` });
+};
+
+// Admins may touch anything; others only what they own
+export const canModify = (user: UserAccount, owner?: string) => user.role === 'admin' || (!!owner && owner === user.username);
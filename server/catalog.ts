@@ -0,0 +1,54 @@
+import * as fs from 'fs-extra';
+import path from 'path';
+import { ModelConfig } from './types';
+
+// Fix for missing Node types
+declare var __dirname: string;
+
+// The model catalog. Edit this file to add or change models; it is re-read when it
+// changes, so neither the server nor the frontend needs a rebuild or restart.
+const MODELS_FILE = path.join(__dirname, 'models.json');
+
+let cache: { mtimeMs: number; models: ModelConfig[] } | null = null;
+
+// Returns an error message for a malformed catalog
+const checkCatalog = (models: any): string | null => {
+  if (!Array.isArray(models)) return "models.json must contain an array";
+  for (const m of models) {
+    if (!m || typeof m.id !== 'string' || !m.id) return "Every model needs an id";
+    if (!Array.isArray(m.sizes) || m.sizes.length === 0) return `${m.id}: sizes must be a non-empty array`;
+    if (!Array.isArray(m.aspectRatios) || m.aspectRatios.length === 0) return `${m.id}: aspectRatios must be a non-empty array`;
+    if (!m.sizes.includes(m.defaultSize)) return `${m.id}: defaultSize must be one of sizes`;
+    if (!m.aspectRatios.includes(m.defaultAspectRatio)) return `${m.id}: defaultAspectRatio must be one of aspectRatios`;
+    const adapter = m.payload || {};
+    if (adapter.size && !['param', 'omit'].includes(adapter.size)) return `${m.id}: payload.size must be "param" or "omit"`;
+    if (adapter.ratio && !['param', 'prompt', 'omit'].includes(adapter.ratio)) return `${m.id}: payload.ratio must be "param", "prompt" or "omit"`;
+    if (adapter.variations && (!adapter.variations.field || !(adapter.variations.max >= 1))) return `${m.id}: payload.variations needs a field and a max of at least 1`;
+  }
+  return null;
+};
+
+export const getModelCatalog = (): ModelConfig[] => {
+  try {
+    const { mtimeMs } = fs.statSync(MODELS_FILE);
+    if (!cache || cache.mtimeMs !== mtimeMs) {
+      const models = fs.readJSONSync(MODELS_FILE);
+      const error = checkCatalog(models);
+      if (error) {
+        // Keep serving the last good catalog; remember the mtime so we only complain once per edit
+        console.error(`Invalid ${MODELS_FILE}: ${error}`);
+        cache = { mtimeMs, models: cache?.models || [] };
+      } else {
+        cache = { mtimeMs, models };
+      }
+    }
+  } catch (e: any) {
+    console.error("Error reading model catalog:", e.message);
+    if (!cache) return [];
+  }
+  return cache!.models;
+};
+
+export const getModelConfig = (id: string): ModelConfig | undefined => {
+  return getModelCatalog().find(m => m.id === id);
+};
@@ -0,0 +1,76 @@
+import { DB } from './db';
+import { AppSettings, BudgetRule, BudgetStatus, GenerateRequest, PriceRule, UsageSummary } from './types';
+import { periodBounds } from './quota';
+
+// Sums of float prices, rounded for display and messages
+const roundCost = (value: number) => Math.round(value * 10000) / 10000;
+
+// Price of one image of this model and size, or undefined when the table has no rule for it
+export const priceFor = (settings: AppSettings, model: string, size: string): number | undefined => {
+  const rules = (settings.prices || []).filter(rule => rule.model === model);
+  return (rules.find(rule => rule.size === size) || rules.find(rule => !rule.size))?.price;
+};
+
+// One price per requested image
+export const estimateCost = (req: Pick<GenerateRequest, 'model' | 'size' | 'variations'>, settings: AppSettings): number | undefined => {
+  const price = priceFor(settings, req.model, req.size);
+  return price === undefined ? undefined : roundCost(price * (req.variations || 1));
+};
+
+// Returns an error message, or null if the price table is usable
+export const checkPriceRules = (rules: PriceRule[] | undefined): string | null => {
+  if (rules === undefined) return null;
+  if (!Array.isArray(rules)) return "prices must be a list.";
+  for (const rule of rules) {
+    if (!rule.model) return "Every price needs a model.";
+    if (typeof rule.price !== 'number' || !(rule.price >= 0)) return `Price for ${rule.model} must be a number, 0 or more.`;
+  }
+  return null;
+};
+
+export const checkBudgetRule = (budget: BudgetRule | null | undefined): string | null => {
+  if (!budget) return null;
+  if (budget.period !== 'day' && budget.period !== 'month') return `Unknown budget period: ${budget.period}`;
+  if (typeof budget.limit !== 'number' || !(budget.limit >= 0)) return "Budget limit must be a number, 0 or more.";
+  return null;
+};
+
+// Spend of all users in the current budget period, or null when no budget is set
+export const getBudgetStatus = async (settings: AppSettings): Promise<BudgetStatus | null> => {
+  if (!settings.budget) return null;
+  const { start, end } = periodBounds(settings.budget.period);
+  const spent = roundCost(await DB.sumCost(start.getTime(), end.getTime()));
+  return { ...settings.budget, spent, remaining: roundCost(Math.max(0, settings.budget.limit - spent)), resetsAt: end.toISOString() };
+};
+
+// Checks that the budget has room for these requests. Returns an error message, or null.
+export const checkBudget = async (requests: Pick<GenerateRequest, 'model' | 'size' | 'variations'>[], settings: AppSettings): Promise<string | null> => {
+  const status = await getBudgetStatus(settings);
+  if (!status) return null;
+  const cost = roundCost(requests.reduce((sum, req) => sum + (estimateCost(req, settings) || 0), 0));
+  if (status.spent >= status.limit || cost > status.remaining) {
+    const period = status.period === 'day' ? 'today' : 'this month';
+    const amount = (value: number) => `${settings.currency}${value}`;
+    return `Budget exceeded: ${amount(status.spent)} of ${amount(status.limit)} spent ${period}, this request would cost ${amount(cost)}.`;
+  }
+  return null;
+};
+
+// Spend of the tasks created in [from, to)
+export const getUsage = async (from: number, to: number, settings: AppSettings): Promise<UsageSummary> => {
+  const group = async (groupBy: Parameters<typeof DB.groupCost>[0]) =>
+    (await DB.groupCost(groupBy, from, to)).map(row => ({ ...row, cost: roundCost(row.cost) }));
+  const byDay = await group('day');
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    currency: settings.currency,
+    total: roundCost(byDay.reduce((sum, row) => sum + row.cost, 0)),
+    tasks: byDay.reduce((sum, row) => sum + row.tasks, 0),
+    byDay,
+    byModel: await group('model'),
+    byStage: await group('stage'),
+    byUser: await group('owner'),
+    budget: await getBudgetStatus(settings),
+  };
+};
@@ -1,20 +1,20 @@
 import * as fs from 'fs-extra';
-import * as fsNative from 'fs'; // Use native fs for appendFile
 import path from 'path';
-import { AppSettings, TaskItem, ImageItem } from './types';
+import Database from 'better-sqlite3';
+import { AppSettings, SECRET_SETTINGS, TaskItem, ImageItem, UploadCacheEntry, ResultCacheEntry, BatchItem, PipelineRun, ListQuery, TaskQuery, ImageQuery, Page, UserAccount, ApiToken, UsageRow, Project, ImageUpdate } from './types';
+import { publish } from './events';
+import { migrate } from './migrations';
+import { encryptSecret, decryptSecret } from './secrets';
+import { requestFingerprint, idTimestamp } from './utils';
 
 // Fix for missing Node types
 declare var __dirname: string;
 
 const DATA_DIR = path.join(__dirname, 'data');
-const TASKS_FILE = path.join(DATA_DIR, 'tasks.json');
-const IMAGES_FILE = path.join(DATA_DIR, 'images.json');
-const LOGS_DIR = path.join(DATA_DIR, 'logs');
-const CONFIG_FILE = path.join(DATA_DIR, 'config.json');
+const DB_FILE = path.join(DATA_DIR, 'workflow.db');
 
 // Ensure dirs exist
 fs.ensureDirSync(DATA_DIR);
-fs.ensureDirSync(LOGS_DIR);
 
 // Default initial config
 const DEFAULT_CONFIG: AppSettings = {
@@ -26,161 +26,238 @@ const DEFAULT_CONFIG: AppSettings = {
   ossEndpoint: "",
   ossBucketName: "",
   ossFolder: "doll-workflow/",
+  storageBackend: "oss",
+  s3Endpoint: "",
+  s3Region: "us-east-1",
+  s3AccessKeyId: "",
+  s3SecretAccessKey: "",
+  s3Bucket: "",
+  s3Folder: "doll-workflow/",
+  publicBaseUrl: "",
   promptHairstyle: "",
   promptAssembly: "",
-  promptReplacement: ""
+  promptReplacement: "",
+  modelProviders: {},
+  mockDelayMs: 5000,
+  mockFailureRate: 0,
+  retryPolicies: {},
+  quotas: [],
+  prices: [],
+  currency: "¥",
+  budget: null,
 };
 
-// Simple Mutex to prevent race conditions on JSON files
-class Mutex {
-  private queue: Promise<void> = Promise.resolve();
-  
-  run<T>(task: () => Promise<T>): Promise<T> {
-    const result = this.queue.then(task);
-    this.queue = result.then(() => {}).catch(() => {});
-    return result;
-  }
-}
+// better-sqlite3 is synchronous, so every statement below runs to completion before any other
+// request is handled. That replaces the Mutex the JSON store needed around read-modify-write.
+const sqlite = new Database(DB_FILE);
+sqlite.pragma('journal_mode = WAL');
+migrate(sqlite);
 
-const dbMutex = new Mutex();
+const parseRows = <T>(rows: any[]): T[] => rows.map(row => JSON.parse(row.data));
 
 export class DB {
   // --- Startup Recovery Logic ---
-  // Call this ONLY once when server starts
-  static async recoverState(): Promise<void> {
-    return dbMutex.run(async () => {
-      try {
-        if (!fs.existsSync(TASKS_FILE)) return;
-        const tasks: TaskItem[] = await fs.readJSON(TASKS_FILE);
-        let modified = false;
-        
-        const safeTasks = tasks.map((t: TaskItem) => {
-          // If server just started and found a task labeled "processing", 
-          // it effectively crashed or was stopped during that task. Mark it failed.
-          if (t.status === 'processing' || t.status === 'pending') {
-            modified = true;
-            return { 
-              ...t, 
-              status: 'failed', 
-              endTime: new Date().toLocaleString(), 
-              error_message: 'System restarted during execution (Check logs for details)' 
-            } as TaskItem;
-          }
-          return t;
-        });
+  // Call this ONLY once when server starts.
+  // Returns the interrupted tasks that can be resumed (those with recorded request params),
+  // reset to 'pending'. Tasks that cannot be rebuilt are marked failed.
+  static async recoverState(): Promise<TaskItem[]> {
+    try {
+      // Oldest first, so tasks resume in submission order
+      const interrupted = parseRows<TaskItem>(sqlite.prepare(
+        "SELECT data FROM tasks WHERE status IN ('processing', 'pending') ORDER BY rowid ASC"
+      ).all());
+      const resumable: TaskItem[] = [];
 
-        if (modified) {
-          await fs.writeJSON(TASKS_FILE, safeTasks, { spaces: 2 });
-          console.log("Startup Recovery: Marked interrupted tasks as failed.");
+      sqlite.transaction(() => {
+        for (const t of interrupted) {
+          // The server stopped during this task. If we know how to rebuild the request,
+          // hand it back to the engine instead of throwing away a paid generation.
+          if (t.params) {
+            const recovered = { ...t, status: 'pending' } as TaskItem;
+            resumable.push(recovered);
+            writeTask(recovered);
+          } else {
+            writeTask({
+              ...t,
+              status: 'failed',
+              endTime: new Date().toLocaleString(),
+              error_message: 'System restarted during execution (Check logs for details)'
+            });
+          }
         }
-      } catch (error) {
-        console.error("Recovery failed:", error);
+      })();
+
+      if (interrupted.length > 0) {
+        console.log(`Startup Recovery: ${resumable.length} interrupted task(s) will be resumed.`);
       }
-    });
+      return resumable;
+    } catch (error) {
+      console.error("Recovery failed:", error);
+      return [];
+    }
   }
 
   static async getConfig(): Promise<AppSettings> {
     try {
-        if (!fs.existsSync(CONFIG_FILE)) {
-          // Fallback to old path if needed or create new
-          const oldPath = path.join(__dirname, 'data.json');
-          if (fs.existsSync(oldPath)) {
-             const oldData = await fs.readJSON(oldPath);
-             await fs.writeJSON(CONFIG_FILE, oldData, { spaces: 2 });
-             return { ...DEFAULT_CONFIG, ...oldData };
-          }
-          await fs.writeJSON(CONFIG_FILE, DEFAULT_CONFIG, { spaces: 2 });
+        const rows: any[] = sqlite.prepare('SELECT key, value FROM configs').all();
+        if (rows.length === 0) {
+          await DB.saveConfig(DEFAULT_CONFIG);
           return DEFAULT_CONFIG;
         }
-        return { ...DEFAULT_CONFIG, ...await fs.readJSON(CONFIG_FILE) };
+        const stored = Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+        for (const field of SECRET_SETTINGS) {
+            try {
+                if (stored[field]) stored[field] = decryptSecret(stored[field]);
+            } catch (e) {
+                // Encrypted under a different key: treat as not set so it can be entered again
+                console.error(`Cannot decrypt stored ${field}, check the secret key:`, e);
+                stored[field] = "";
+            }
+        }
+        return { ...DEFAULT_CONFIG, ...stored };
     } catch (error) {
         console.error("Error reading config, returning default:", error);
         return DEFAULT_CONFIG;
     }
   }
 
+  // Replaces the whole config, one row per setting; secrets are encrypted
   static async saveConfig(config: AppSettings): Promise<void> {
-    return dbMutex.run(async () => {
-        try {
-            await fs.writeJSON(CONFIG_FILE, config, { spaces: 2 });
-        } catch (error) {
-            console.error("Error saving config:", error);
-        }
-    });
+    try {
+        const insert = sqlite.prepare('INSERT INTO configs (key, value) VALUES (?, ?)');
+        const secrets: readonly string[] = SECRET_SETTINGS;
+        sqlite.transaction(() => {
+            sqlite.prepare('DELETE FROM configs').run();
+            for (const [key, value] of Object.entries(config)) {
+                if (value === undefined) continue;
+                insert.run(key, JSON.stringify(secrets.includes(key) ? encryptSecret(value) : value));
+            }
+        })();
+    } catch (error) {
+        console.error("Error saving config:", error);
+    }
   }
 
   // --- Tasks ---
 
   static async getTasks(): Promise<TaskItem[]> {
-    return dbMutex.run(async () => {
-        try {
-            if (!fs.existsSync(TASKS_FILE)) return [];
-            const tasks: TaskItem[] = await fs.readJSON(TASKS_FILE);
-            
-            // Hydrate logs from external files
-            // DO NOT modify status here. Read-only operation.
-            const hydratedTasks = await Promise.all(tasks.map(async (t) => {
-                const logPath = path.join(LOGS_DIR, `${t.id}.log`);
-                if (await fs.pathExists(logPath)) {
-                    const logContent = await fs.readFile(logPath, 'utf8');
-                    const fileLogs = logContent.split('\n').filter(line => line.trim().length > 0);
-                    return { ...t, logs: fileLogs };
-                }
-                return t;
-            }));
-
-            return hydratedTasks;
-        } catch (error) {
-            console.error("Error reading tasks:", error);
-            return [];
+    try {
+        const tasks = parseRows<TaskItem>(sqlite.prepare('SELECT data FROM tasks ORDER BY rowid DESC').all());
+
+        // One query for all logs instead of one file read per task
+        const logs = new Map<string, string[]>();
+        for (const row of sqlite.prepare('SELECT task_id, line FROM task_logs ORDER BY id').all() as any[]) {
+            if (!logs.has(row.task_id)) logs.set(row.task_id, []);
+            logs.get(row.task_id)!.push(row.line);
         }
-    });
+        return tasks.map(t => logs.has(t.id) ? { ...t, logs: logs.get(t.id) } : t);
+    } catch (error) {
+        console.error("Error reading tasks:", error);
+        return [];
+    }
+  }
+
+  static async getTask(taskId: string): Promise<TaskItem | null> {
+    return readTask(taskId);
+  }
+
+  // The lookups below return plain records without logs
+
+  static async getTasksByIds(ids: string[]): Promise<TaskItem[]> {
+    if (ids.length === 0) return [];
+    return parseRows<TaskItem>(sqlite.prepare(`SELECT data FROM tasks WHERE id IN (${ids.map(() => '?').join(', ')}) ORDER BY rowid`).all(...ids));
+  }
+
+  // Newest pending or processing task of the owner with the same request fingerprint
+  static async findActiveDuplicate(fingerprint: string, owner: string | undefined): Promise<TaskItem | null> {
+    const row: any = sqlite.prepare("SELECT data FROM tasks WHERE fingerprint = ? AND owner IS ? AND status IN ('pending', 'processing') ORDER BY rowid DESC LIMIT 1")
+      .get(fingerprint, owner ?? null);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // Newest task the owner submitted with this idempotency key since `since` (epoch ms)
+  static async findTaskByIdempotencyKey(key: string, owner: string | undefined, since: number): Promise<TaskItem | null> {
+    const row: any = sqlite.prepare('SELECT data FROM tasks WHERE idempotency_key = ? AND owner IS ? AND created_at >= ? ORDER BY rowid DESC LIMIT 1')
+      .get(key, owner ?? null, since);
+    return row ? JSON.parse(row.data) : null;
   }
 
+  // Replaces every task record (logs are kept), newest first like getTasks
   static async saveTasks(tasks: TaskItem[]): Promise<void> {
     try {
-        await fs.writeJSON(TASKS_FILE, tasks, { spaces: 2 });
+        sqlite.transaction(() => {
+            sqlite.prepare('DELETE FROM tasks').run();
+            [...tasks].reverse().forEach(writeTask);
+        })();
     } catch (error) {
         console.error("Error saving tasks:", error);
     }
   }
 
   static async addTask(task: TaskItem): Promise<void> {
-    return dbMutex.run(async () => {
-        let tasks = [];
-        if (fs.existsSync(TASKS_FILE)) {
-             tasks = await fs.readJSON(TASKS_FILE);
-        }
-        tasks.unshift(task);
-        await fs.writeJSON(TASKS_FILE, tasks, { spaces: 2 });
-    });
+    writeTask(task);
+    publish({ type: 'task-created', task });
   }
 
   static async updateTask(taskId: string, updates: Partial<TaskItem>): Promise<void> {
-    return dbMutex.run(async () => {
-        if (!fs.existsSync(TASKS_FILE)) return;
-        const tasks: TaskItem[] = await fs.readJSON(TASKS_FILE);
-        const index = tasks.findIndex(t => t.id === taskId);
-        if (index !== -1) {
-            tasks[index] = { ...tasks[index], ...updates };
-            await fs.writeJSON(TASKS_FILE, tasks, { spaces: 2 });
-        }
-    });
+    const task = readTask(taskId);
+    if (!task) return;
+    const updated = { ...task, ...updates };
+    writeTask(updated);
+    publish({ type: 'task-updated', task: updated });
+  }
+
+  // One page of task records without logs, newest first unless query.sort is 'oldest'
+  static async queryTasks(query: TaskQuery): Promise<Page<TaskItem>> {
+    const where: string[] = [];
+    const params: any[] = [];
+    if (query.status && query.status.length > 0) {
+      where.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+      params.push(...query.status);
+    }
+    if (query.stage) { where.push('stage = ?'); params.push(query.stage); }
+    if (query.model) { where.push('model = ?'); params.push(query.model); }
+    return queryPage<TaskItem>('tasks', where, params, query);
+  }
+
+  // Tasks of one user created since the given time, for quotas. Failed and cancelled ones are free.
+  static async countTasks(owner: string, since: number, model?: string): Promise<number> {
+    const modelFilter = model ? ' AND model = ?' : '';
+    const params: any[] = model ? [owner, since, model] : [owner, since];
+    const row: any = sqlite.prepare(`
+      SELECT COUNT(*) AS count FROM tasks
+      WHERE owner = ? AND created_at >= ? AND status NOT IN ('failed', 'cancelled')${modelFilter}
+    `).get(...params);
+    return row.count;
+  }
+
+  // Spend of all tasks created in [since, until)
+  static async sumCost(since: number, until: number = Date.now()): Promise<number> {
+    const row: any = sqlite.prepare('SELECT COALESCE(SUM(cost), 0) AS total FROM tasks WHERE created_at >= ? AND created_at < ?').get(since, until);
+    return row.total;
+  }
+
+  // Tasks and spend in [since, until) grouped by local day, model, stage or owner
+  static async groupCost(groupBy: 'day' | 'model' | 'stage' | 'owner', since: number, until: number): Promise<UsageRow[]> {
+    const key = groupBy === 'day' ? "date(created_at / 1000, 'unixepoch', 'localtime')" : `COALESCE(${groupBy}, '')`;
+    return sqlite.prepare(`
+      SELECT ${key} AS key, COUNT(*) AS tasks, COALESCE(SUM(cost), 0) AS cost FROM tasks
+      WHERE created_at >= ? AND created_at < ?
+      GROUP BY 1 ORDER BY ${groupBy === 'day' ? '1' : 'cost DESC'}
+    `).all(since, until) as UsageRow[];
+  }
+
+  static async getTaskLogs(taskId: string): Promise<string[]> {
+    return (sqlite.prepare('SELECT line FROM task_logs WHERE task_id = ? ORDER BY id').all(taskId) as any[]).map(row => row.line);
   }
 
-  // Optimized Logging: Appends to file immediately
   static async addTaskLog(taskId: string, message: string): Promise<void> {
     const timestamp = new Date().toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
-    const logLine = `[${timestamp}] ${message}\n`;
-    const logPath = path.join(LOGS_DIR, `${taskId}.log`);
+    const logLine = `[${timestamp}] ${message}`;
 
     try {
-        await new Promise<void>((resolve, reject) => {
-            fsNative.appendFile(logPath, logLine, { encoding: 'utf8' }, (err) => {
-                if (err) reject(err);
-                else resolve();
-            });
-        });
+        sqlite.prepare('INSERT INTO task_logs (task_id, line) VALUES (?, ?)').run(taskId, logLine);
+        publish({ type: 'task-log', taskId, line: logLine });
     } catch (e) {
         console.error(`Failed to write log for ${taskId}:`, e);
     }
@@ -189,48 +266,371 @@ export class DB {
   // --- Images ---
 
   static async getImages(): Promise<ImageItem[]> {
-    return dbMutex.run(async () => {
-        try {
-            if (!fs.existsSync(IMAGES_FILE)) return [];
-            return await fs.readJSON(IMAGES_FILE);
-        } catch (error) {
-            console.error("Error reading images:", error);
-            return [];
-        }
-    });
+    try {
+        return parseRows<ImageItem>(sqlite.prepare('SELECT data FROM images ORDER BY rowid DESC').all());
+    } catch (error) {
+        console.error("Error reading images:", error);
+        return [];
+    }
   }
 
   static async addImage(image: ImageItem): Promise<void> {
-    return dbMutex.run(async () => {
-        let images = [];
-        if (fs.existsSync(IMAGES_FILE)) {
-            images = await fs.readJSON(IMAGES_FILE);
-        }
-        images.unshift(image);
-        await fs.writeJSON(IMAGES_FILE, images, { spaces: 2 });
-    });
+    sqlite.prepare('INSERT INTO images (id, data, category, created_at, search, owner, project_id) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(image.id, JSON.stringify(image), image.category, Date.now(), imageSearchText(image), image.owner ?? null, image.projectId ?? null);
+    publish({ type: 'image-added', image });
+  }
+
+  // In place, so the image keeps its position and upload time
+  static async updateImage(id: string, updates: ImageUpdate): Promise<ImageItem | null> {
+    const image = await DB.getImage(id);
+    if (!image) return null;
+    const updated = { ...image, ...updates };
+    sqlite.prepare('UPDATE images SET data = ?, category = ?, search = ? WHERE id = ?')
+      .run(JSON.stringify(updated), updated.category, imageSearchText(updated), id);
+    publish({ type: 'image-updated', image: updated });
+    return updated;
+  }
+
+  static async queryImages(query: ImageQuery): Promise<Page<ImageItem>> {
+    const where: string[] = [];
+    const params: any[] = [];
+    if (query.category) { where.push('category = ?'); params.push(query.category); }
+    return queryPage<ImageItem>('images', where, params, query);
+  }
+
+  static async getImage(id: string): Promise<ImageItem | null> {
+    const row: any = sqlite.prepare('SELECT data FROM images WHERE id = ?').get(id);
+    return row ? JSON.parse(row.data) : null;
   }
 
   static async deleteImage(id: string): Promise<boolean> {
-    return dbMutex.run(async () => {
-        if (!fs.existsSync(IMAGES_FILE)) return false;
-        const images: ImageItem[] = await fs.readJSON(IMAGES_FILE);
-        const index = images.findIndex(img => img.id === id);
-        if (index === -1) return false;
-
-        const img = images[index];
-        images.splice(index, 1);
-        
-        await fs.writeJSON(IMAGES_FILE, images, { spaces: 2 });
-
-        try {
-            if (img.local_path && await fs.pathExists(img.local_path)) {
-                await fs.remove(img.local_path);
-            }
-        } catch (err) {
-            console.error("Error deleting file from disk:", err);
+    const row: any = sqlite.prepare('SELECT data FROM images WHERE id = ?').get(id);
+    if (!row) return false;
+    const img: ImageItem = JSON.parse(row.data);
+
+    sqlite.prepare('DELETE FROM images WHERE id = ?').run(id);
+    publish({ type: 'image-deleted', id });
+
+    try {
+        if (img.local_path && await fs.pathExists(img.local_path)) {
+            await fs.remove(img.local_path);
         }
-        return true;
-    });
+    } catch (err) {
+        console.error("Error deleting file from disk:", err);
+    }
+    return true;
   }
-}
\ No newline at end of file
+
+  // --- Batches ---
+
+  // One page of batches, newest first unless query.sort is 'oldest'
+  static async queryBatches(query: ListQuery): Promise<Page<BatchItem>> {
+    return queryPage<BatchItem>('batches', [], [], query);
+  }
+
+  // Newest batch the owner submitted with this idempotency key since `since` (epoch ms)
+  static async findBatchByIdempotencyKey(key: string, owner: string | undefined, since: number): Promise<BatchItem | null> {
+    const row: any = sqlite.prepare("SELECT data FROM batches WHERE idempotency_key = ? AND json_extract(data, '$.owner') IS ? AND created_at >= ? ORDER BY rowid DESC LIMIT 1")
+      .get(key, owner ?? null, since);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  static async addBatch(batch: BatchItem): Promise<void> {
+    sqlite.prepare('INSERT INTO batches (id, data, idempotency_key, created_at, search, project_id) VALUES (?, ?, ?, ?, ?, ?)').run(
+      batch.id, JSON.stringify(batch), batch.idempotencyKey ?? null, Date.now(), [batch.id, batch.stage, batch.model].join(' ').toLowerCase(), batch.projectId ?? null
+    );
+    publish({ type: 'batch-updated', batch });
+  }
+
+  static async updateBatch(batchId: string, updates: Partial<BatchItem>): Promise<void> {
+    const row: any = sqlite.prepare('SELECT data FROM batches WHERE id = ?').get(batchId);
+    if (!row) return;
+    const batch: BatchItem = { ...JSON.parse(row.data), ...updates };
+    sqlite.prepare('UPDATE batches SET data = ? WHERE id = ?').run(JSON.stringify(batch), batchId);
+    publish({ type: 'batch-updated', batch });
+  }
+
+  // --- Pipelines ---
+
+  // One page of pipeline runs, newest first unless query.sort is 'oldest'
+  static async queryPipelines(query: ListQuery): Promise<Page<PipelineRun>> {
+    return queryPage<PipelineRun>('pipelines', [], [], query);
+  }
+
+  static async getPipeline(pipelineId: string): Promise<PipelineRun | null> {
+    const row: any = sqlite.prepare('SELECT data FROM pipelines WHERE id = ?').get(pipelineId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  static async addPipeline(pipeline: PipelineRun): Promise<void> {
+    sqlite.prepare('INSERT INTO pipelines (id, data, created_at, search, project_id) VALUES (?, ?, ?, ?, ?)').run(
+      pipeline.id, JSON.stringify(pipeline), Date.now(), [pipeline.id, pipeline.name].join(' ').toLowerCase(), pipeline.projectId ?? null
+    );
+    publish({ type: 'pipeline-updated', pipeline });
+  }
+
+  static async updatePipeline(pipelineId: string, updates: Partial<PipelineRun>): Promise<void> {
+    const pipeline = await DB.getPipeline(pipelineId);
+    if (!pipeline) return;
+    const updated = { ...pipeline, ...updates };
+    sqlite.prepare('UPDATE pipelines SET data = ? WHERE id = ?').run(JSON.stringify(updated), pipelineId);
+    publish({ type: 'pipeline-updated', pipeline: updated });
+  }
+
+  // --- Projects ---
+
+  // By name
+  static async getProjects(): Promise<Project[]> {
+    return parseRows<Project>(sqlite.prepare('SELECT data FROM projects ORDER BY name').all());
+  }
+
+  static async getProject(projectId: string): Promise<Project | null> {
+    const row: any = sqlite.prepare('SELECT data FROM projects WHERE id = ?').get(projectId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // Project names are case-insensitive
+  static async getProjectByName(name: string): Promise<Project | null> {
+    const row: any = sqlite.prepare('SELECT data FROM projects WHERE name = ?').get(name);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  static async addProject(project: Project): Promise<void> {
+    sqlite.prepare('INSERT INTO projects (id, name, data) VALUES (?, ?, ?)').run(project.id, project.name, JSON.stringify(project));
+    publish({ type: 'project-updated', project });
+  }
+
+  static async updateProject(projectId: string, updates: Partial<Project>): Promise<Project | null> {
+    const project = await DB.getProject(projectId);
+    if (!project) return null;
+    const updated = { ...project, ...updates };
+    sqlite.prepare('UPDATE projects SET name = ?, data = ? WHERE id = ?').run(updated.name, JSON.stringify(updated), projectId);
+    publish({ type: 'project-updated', project: updated });
+    return updated;
+  }
+
+  // Its images, tasks, batches and pipelines move out of the project; files stay where they are
+  static async deleteProject(projectId: string): Promise<boolean> {
+    const deleted = sqlite.transaction(() => {
+      sqlite.prepare(`UPDATE images SET project_id = NULL, data = json_remove(data, '$.projectId') WHERE project_id = ?`).run(projectId);
+      // The request copy too, so a retry does not point at the deleted project
+      sqlite.prepare(`UPDATE tasks SET project_id = NULL, data = json_remove(data, '$.projectId', '$.params.projectId') WHERE project_id = ?`).run(projectId);
+      for (const table of ['batches', 'pipelines']) {
+        sqlite.prepare(`UPDATE ${table} SET project_id = NULL, data = json_remove(data, '$.projectId') WHERE project_id = ?`).run(projectId);
+      }
+      return sqlite.prepare('DELETE FROM projects WHERE id = ?').run(projectId).changes > 0;
+    })();
+    if (deleted) publish({ type: 'project-deleted', id: projectId });
+    return deleted;
+  }
+
+  // --- Upload Cache ---
+
+  static async getUploadCacheEntry(key: string): Promise<UploadCacheEntry | null> {
+    try {
+        const row: any = sqlite.prepare('SELECT url, expires_at FROM upload_cache WHERE key = ?').get(key);
+        return row ? { url: row.url, expiresAt: row.expires_at } : null;
+    } catch (error) {
+        console.error("Error reading upload cache:", error);
+        return null;
+    }
+  }
+
+  static async setUploadCacheEntry(key: string, entry: UploadCacheEntry): Promise<void> {
+    // Drop expired entries while we are writing anyway
+    sqlite.prepare('DELETE FROM upload_cache WHERE expires_at <= ?').run(Date.now());
+    sqlite.prepare('INSERT OR REPLACE INTO upload_cache (key, url, expires_at) VALUES (?, ?, ?)').run(key, entry.url, entry.expiresAt);
+  }
+
+  // --- Result Cache ---
+
+  static async getResultCacheEntry(key: string): Promise<ResultCacheEntry | null> {
+    try {
+        const row: any = sqlite.prepare('SELECT data FROM result_cache WHERE key = ?').get(key);
+        return row ? JSON.parse(row.data) : null;
+    } catch (error) {
+        console.error("Error reading result cache:", error);
+        return null;
+    }
+  }
+
+  static async setResultCacheEntry(key: string, entry: ResultCacheEntry): Promise<void> {
+    sqlite.prepare('INSERT OR REPLACE INTO result_cache (key, data) VALUES (?, ?)').run(key, JSON.stringify(entry));
+  }
+
+  // --- Accounts ---
+
+  static async countUsers(): Promise<number> {
+    return (sqlite.prepare('SELECT COUNT(*) AS count FROM users').get() as any).count;
+  }
+
+  // Oldest first
+  static async getUsers(): Promise<UserAccount[]> {
+    return parseRows<UserAccount>(sqlite.prepare('SELECT data FROM users ORDER BY rowid').all());
+  }
+
+  static async getUser(userId: string): Promise<UserAccount | null> {
+    const row: any = sqlite.prepare('SELECT data FROM users WHERE id = ?').get(userId);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // Usernames are case-insensitive
+  static async getCredentials(username: string): Promise<{ user: UserAccount; passwordHash: string } | null> {
+    const row: any = sqlite.prepare('SELECT data, password_hash FROM users WHERE username = ?').get(username);
+    return row ? { user: JSON.parse(row.data), passwordHash: row.password_hash } : null;
+  }
+
+  static async addUser(user: UserAccount, passwordHash: string): Promise<void> {
+    sqlite.prepare('INSERT INTO users (id, username, password_hash, data) VALUES (?, ?, ?, ?)')
+      .run(user.id, user.username, passwordHash, JSON.stringify(user));
+  }
+
+  // Checks and inserts in one transaction, so concurrent setups cannot both create an account
+  static async addFirstUser(user: UserAccount, passwordHash: string): Promise<boolean> {
+    return sqlite.transaction(() => {
+      if ((sqlite.prepare('SELECT COUNT(*) AS count FROM users').get() as any).count > 0) return false;
+      sqlite.prepare('INSERT INTO users (id, username, password_hash, data) VALUES (?, ?, ?, ?)')
+        .run(user.id, user.username, passwordHash, JSON.stringify(user));
+      return true;
+    }).immediate();
+  }
+
+  static async updateUser(userId: string, updates: Partial<UserAccount>): Promise<UserAccount | null> {
+    const user = await DB.getUser(userId);
+    if (!user) return null;
+    const updated = { ...user, ...updates };
+    sqlite.prepare('UPDATE users SET data = ? WHERE id = ?').run(JSON.stringify(updated), userId);
+    return updated;
+  }
+
+  static async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    sqlite.prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(passwordHash, userId);
+  }
+
+  // Also signs the user out everywhere and revokes their API tokens. Their tasks and images stay.
+  static async deleteUser(userId: string): Promise<boolean> {
+    return sqlite.transaction(() => {
+      sqlite.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+      sqlite.prepare('DELETE FROM api_tokens WHERE user_id = ?').run(userId);
+      return sqlite.prepare('DELETE FROM users WHERE id = ?').run(userId).changes > 0;
+    })();
+  }
+
+  static async addSession(tokenHash: string, userId: string, expiresAt: number): Promise<void> {
+    // Drop expired sessions while we are writing anyway
+    sqlite.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(Date.now());
+    sqlite.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)').run(tokenHash, userId, expiresAt);
+  }
+
+  static async getSessionUser(tokenHash: string): Promise<UserAccount | null> {
+    const row: any = sqlite.prepare(`
+      SELECT users.data FROM sessions JOIN users ON users.id = sessions.user_id
+      WHERE sessions.token_hash = ? AND sessions.expires_at > ?
+    `).get(tokenHash, Date.now());
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  static async deleteSession(tokenHash: string): Promise<void> {
+    sqlite.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+  }
+
+  // Signs a user out everywhere except the given session
+  static async deleteOtherSessions(userId: string, keepTokenHash: string): Promise<void> {
+    sqlite.prepare('DELETE FROM sessions WHERE user_id = ? AND token_hash != ?').run(userId, keepTokenHash);
+  }
+
+  static async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return parseRows<ApiToken>(sqlite.prepare('SELECT data FROM api_tokens WHERE user_id = ? ORDER BY rowid DESC').all(userId));
+  }
+
+  static async addApiToken(token: ApiToken, tokenHash: string): Promise<void> {
+    sqlite.prepare('INSERT INTO api_tokens (id, user_id, token_hash, data) VALUES (?, ?, ?, ?)')
+      .run(token.id, token.userId, tokenHash, JSON.stringify(token));
+  }
+
+  // Resolves a token to its owner and records when it was last used
+  static async getApiTokenUser(tokenHash: string): Promise<UserAccount | null> {
+    const row: any = sqlite.prepare(`
+      SELECT api_tokens.id, api_tokens.data AS token, users.data AS user
+      FROM api_tokens JOIN users ON users.id = api_tokens.user_id
+      WHERE api_tokens.token_hash = ?
+    `).get(tokenHash);
+    if (!row) return null;
+    const token: ApiToken = { ...JSON.parse(row.token), lastUsedAt: new Date().toLocaleString() };
+    sqlite.prepare('UPDATE api_tokens SET data = ? WHERE id = ?').run(JSON.stringify(token), row.id);
+    return JSON.parse(row.user);
+  }
+
+  // Only the owner can revoke a token
+  static async deleteApiToken(tokenId: string, userId: string): Promise<boolean> {
+    return sqlite.prepare('DELETE FROM api_tokens WHERE id = ? AND user_id = ?').run(tokenId, userId).changes > 0;
+  }
+}
+
+// Name and tags, matched by ?q=
+function imageSearchText(image: ImageItem): string {
+  return [image.name, ...(image.tags || [])].join(' ').toLowerCase();
+}
+
+// Task rows hold the record without logs; those live in task_logs
+function readTask(taskId: string): TaskItem | null {
+  const row: any = sqlite.prepare('SELECT data FROM tasks WHERE id = ?').get(taskId);
+  return row ? JSON.parse(row.data) : null;
+}
+
+function writeTask(task: TaskItem) {
+  const { logs, ...record } = task;
+  const names = [...record.inputImages, ...record.outputImages].map(img => img.name);
+  const stage = record.params?.stage || record.type.toLowerCase().replace(/ /g, '_');
+  const fingerprint = record.params ? requestFingerprint(record.params) : null;
+  const search = [record.id, record.type, record.model, ...names].join(' ').toLowerCase();
+  // A reported cost always counts; the estimate only while the task may still be charged
+  const failed = record.status === 'failed' || record.status === 'cancelled';
+  const cost = record.actualCost ?? (failed ? 0 : record.estimatedCost ?? 0);
+  // Upsert rather than REPLACE, which would give the row a new rowid and reorder the list
+  sqlite.prepare(`
+    INSERT INTO tasks (id, status, data, stage, model, created_at, search, owner, cost, project_id, idempotency_key, fingerprint) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET status = excluded.status, data = excluded.data, stage = excluded.stage, model = excluded.model, search = excluded.search, owner = excluded.owner, cost = excluded.cost, project_id = excluded.project_id, idempotency_key = excluded.idempotency_key, fingerprint = excluded.fingerprint
+  `).run(record.id, record.status, JSON.stringify(record), stage, record.model, idTimestamp(record.id) || Date.now(), search, record.owner ?? null, cost, record.projectId ?? null, record.idempotencyKey ?? null, fingerprint);
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Applies the shared list parameters on top of the table-specific filters. Rows are ordered by
+// rowid (insertion order), which is also what the cursor points at.
+function queryPage<T>(table: string, where: string[], params: any[], query: ListQuery): Page<T> {
+  if (query.q) {
+    const escaped = query.q.toLowerCase().replace(/[\\%_]/g, c => `\\${c}`);
+    where.push("search LIKE ? ESCAPE '\\'");
+    params.push(`%${escaped}%`);
+  }
+  if (query.projectId === null) where.push('project_id IS NULL');
+  else if (query.projectId !== undefined) { where.push('project_id = ?'); params.push(query.projectId); }
+  if (query.from !== undefined) { where.push('created_at >= ?'); params.push(query.from); }
+  if (query.to !== undefined) { where.push('created_at < ?'); params.push(query.to); }
+  const filter = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  const total = (sqlite.prepare(`SELECT COUNT(*) AS n FROM ${table} ${filter}`).get(...params) as any).n;
+
+  const newestFirst = query.sort !== 'oldest';
+  const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const pageWhere = [...where];
+  const pageParams = [...params];
+  if (query.cursor) {
+    pageWhere.push(newestFirst ? 'rowid < ?' : 'rowid > ?');
+    pageParams.push(Number(query.cursor));
+  }
+  const pageFilter = pageWhere.length > 0 ? `WHERE ${pageWhere.join(' AND ')}` : '';
+  // One extra row tells whether there is a next page
+  const rows = sqlite.prepare(
+    `SELECT rowid, data FROM ${table} ${pageFilter} ORDER BY rowid ${newestFirst ? 'DESC' : 'ASC'} LIMIT ? OFFSET ?`
+  ).all(...pageParams, limit + 1, query.cursor ? 0 : query.offset || 0) as any[];
+
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  return {
+    items: parseRows<T>(pageRows),
+    total,
+    nextCursor: hasMore ? String(pageRows[pageRows.length - 1].rowid) : undefined,
+  };
+}
@@ -0,0 +1,32 @@
+import { EventEmitter } from 'events';
+import { TaskItem, ImageItem, BatchItem, PipelineRun, Project } from './types';
+
+// Change notifications pushed to browsers over /api/events. DB emits these after each
+// successful write, so anything that goes through DB is broadcast automatically.
+export type ServerEvent =
+  | { type: 'task-created'; task: TaskItem }
+  | { type: 'task-updated'; task: TaskItem } // Full record after the update, without logs
+  | { type: 'task-log'; taskId: string; line: string }
+  | { type: 'image-added'; image: ImageItem }
+  | { type: 'image-updated'; image: ImageItem } // Renamed, retagged or moved to another category
+  | { type: 'image-deleted'; id: string }
+  | { type: 'batch-updated'; batch: BatchItem }
+  | { type: 'pipeline-updated'; pipeline: PipelineRun }
+  | { type: 'project-updated'; project: Project } // Created or edited
+  | { type: 'project-deleted'; id: string };
+
+const emitter = new EventEmitter();
+// One listener per open browser tab
+emitter.setMaxListeners(0);
+
+export const publish = (event: ServerEvent) => {
+  emitter.emit('event', event);
+};
+
+// Returns the unsubscribe function
+export const subscribe = (listener: (event: ServerEvent) => void): (() => void) => {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+};
@@ -3,9 +3,17 @@ import cors from 'cors';
 import multer from 'multer';
 import path from 'path';
 import * as fs from 'fs-extra'; // Safer import for fs-extra
+import { v4 as uuidv4 } from 'uuid';
 import { DB } from './db';
+import { subscribe } from './events';
+import { redactSecrets, keepStoredSecrets } from './secrets';
+import { requireAuth, requireRole, canModify, authenticate, createUser, createFirstAdmin, createSession, endSession, endOtherSessions, createApiToken, readSessionCookie, verifyPassword, hashPassword, checkNewCredentials, checkNewPassword, SESSION_COOKIE, SESSION_TTL_MS } from './auth';
+import { getModelCatalog } from './catalog';
 import { WorkflowEngine } from './workflow';
-import { ImageItem, GenerateRequest } from './types';
+import { getQuotaStatus, checkQuotaRules, periodBounds } from './quota';
+import { getUsage, checkPriceRules, checkBudgetRule } from './costs';
+import { createProject, updateProject, checkProject, checkProjectFields, ProjectFields } from './projects';
+import { ImageItem, UserAccount, AuthSession, ROLES, BATCH_MODES, GenerateRequest, BatchRequest, PipelineRequest, PipelineStepRequest, ListQuery, TaskQuery, WorkflowStage, ImageUpdate, STAGE_SLOTS } from './types';
 
 // Fix for missing Node types
 declare var process: any;
@@ -27,19 +35,25 @@ process.on('unhandledRejection', (reason: any, promise: any) => {
 // Setup directories structure matching DB expectations
 const DATA_DIR = path.join(__dirname, 'data');
 const INPUT_DIR = path.join(DATA_DIR, 'inputs');
-const LOGS_DIR = path.join(DATA_DIR, 'logs');
 
 // Ensure directories exist safely
 try {
   fs.ensureDirSync(INPUT_DIR);
-  fs.ensureDirSync(LOGS_DIR);
 } catch (err) {
   console.error("Failed to create directories:", err);
 }
 
 // Middleware
-app.use(cors({ origin: '*' }) as any); 
+// Pages allowed to call the API with the session cookie. SameSite=Lax alone does not keep out
+// pages on other ports of the same host, so origins are listed: comma-separated in
+// DOLL_WORKFLOW_ALLOWED_ORIGINS, by default the Vite dev server.
+const ALLOWED_ORIGINS: string[] = (process.env.DOLL_WORKFLOW_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',').map((origin: string) => origin.trim().replace(/\/$/, '')).filter(Boolean);
+app.use(cors({ origin: ALLOWED_ORIGINS, credentials: true }) as any);
 app.use(express.json({ limit: '50mb' }) as any);
+// Every /api route except health and sign-in, and every file not opened by a signed link,
+// needs a session or an API token
+app.use(['/api', '/files'], requireAuth as any);
 
 // Initialize Engine
 const engine = new WorkflowEngine();
@@ -47,14 +61,36 @@ const engine = new WorkflowEngine();
 // Serve Static Files
 app.use('/files/inputs', express.static(INPUT_DIR) as any);
 
+// Project outputs live in their own subfolder of the working directory
+app.get('/files/projects/:folder/:filename', async (req: any, res: any) => {
+    try {
+        const config = await DB.getConfig();
+        const outputDir = path.resolve(config.workingDirectory);
+        const outputPath = path.resolve(outputDir, req.params.folder, req.params.filename);
+        if (!outputPath.startsWith(outputDir + path.sep)) {
+            return res.status(403).send("Access denied");
+        }
+        if (await fs.pathExists(outputPath)) {
+            return res.sendFile(outputPath);
+        }
+        res.status(404).send("File not found");
+    } catch (e: any) {
+        console.error("File serve error:", e.message);
+        res.status(500).send("Error serving file");
+    }
+});
+
 // Serve generic files (for outputs accessed by full path in dev)
 app.get('/files/:filename', async (req: any, res: any) => {
     try {
         const filename = req.params.filename;
         const config = await DB.getConfig();
 
-        // Check inputs first
+        // Check inputs first; params are URL-decoded, so ..%2F must not climb out of INPUT_DIR
         const inputPath = path.resolve(INPUT_DIR, filename);
+        if (!inputPath.startsWith(INPUT_DIR + path.sep)) {
+            return res.status(403).send("Access denied");
+        }
         if (await fs.pathExists(inputPath)) {
             return res.sendFile(inputPath);
         }
@@ -65,7 +101,7 @@ app.get('/files/:filename', async (req: any, res: any) => {
 
         if (await fs.pathExists(outputPath)) {
             // Security check: ensure outputPath is within outputDir to prevent traversal
-            if (!outputPath.startsWith(outputDir)) {
+            if (!outputPath.startsWith(outputDir + path.sep)) {
                  return res.status(403).send("Access denied");
             }
             return res.sendFile(outputPath);
@@ -83,6 +119,45 @@ app.get('/api/health', (req: any, res: any) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Open event streams, each with the request whose credentials it was opened with
+const eventStreams = new Map<any, () => void>();
+
+// Ends the streams whose session or API token no longer signs anyone in
+const closeRevokedEventStreams = async () => {
+  for (const [req, close] of eventStreams) {
+    if (!await authenticate(req).catch(() => null)) close();
+  }
+};
+
+// Live Updates (Server-Sent Events)
+app.get('/api/events', (req: any, res: any) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  // Ask the browser to reconnect quickly if the stream drops
+  res.write('retry: 3000\n\n');
+
+  const unsubscribe = subscribe((event) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  });
+  // Comment lines keep proxies from closing an idle connection; expired sessions end here
+  const heartbeat = setInterval(async () => {
+    if (await authenticate(req).catch(() => null)) res.write(': ping\n\n');
+    else close();
+  }, 25000);
+
+  const close = () => {
+    if (!eventStreams.delete(req)) return;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+  eventStreams.set(req, close);
+  req.on('close', close);
+});
+
 // Root check
 app.get('/', (req: any, res: any) => {
   res.send("DollWorkflowAI Server is running");
@@ -101,45 +176,406 @@ const storage = multer.diskStorage({
 });
 const upload = multer({ storage: storage });
 
+// --- Query Parsing ---
+
+const TASK_STATUSES = ['pending', 'processing', 'completed', 'failed', 'cancelled'];
+
+// Shared list parameters of GET /api/tasks and /api/images. Throws with a message for a 400 response.
+// project is a project id, or 'none' for records outside any project.
+const parseListQuery = (query: any): ListQuery => {
+  const int = (name: string) => {
+    if (query[name] === undefined || query[name] === '') return undefined;
+    const value = Number(query[name]);
+    if (!Number.isInteger(value) || value < 0) throw new Error(`${name} must be a non-negative integer`);
+    return value;
+  };
+  const date = (name: string) => {
+    if (!query[name]) return undefined;
+    const value = Date.parse(query[name]);
+    if (isNaN(value)) throw new Error(`${name} is not a valid date`);
+    return value;
+  };
+  if (query.sort && query.sort !== 'newest' && query.sort !== 'oldest') {
+    throw new Error("sort must be 'newest' or 'oldest'");
+  }
+  if (query.cursor && !/^\d+$/.test(query.cursor)) throw new Error("Invalid cursor");
+  return {
+    q: query.q || undefined,
+    from: date('from'),
+    to: date('to'),
+    sort: query.sort || undefined,
+    limit: int('limit'),
+    offset: int('offset'),
+    cursor: query.cursor || undefined,
+    projectId: !query.project ? undefined : query.project === 'none' ? null : String(query.project),
+  };
+};
+
+// Task filters on top of the list parameters; status takes a comma-separated list
+const parseTaskQuery = (query: any): TaskQuery => {
+  const status = query.status ? String(query.status).split(',').filter(Boolean) : undefined;
+  const unknown = status?.filter(s => !TASK_STATUSES.includes(s)) || [];
+  if (unknown.length > 0) throw new Error(`Unknown status: ${unknown.join(', ')}`);
+  if (query.stage && !Object.values(WorkflowStage).includes(query.stage)) throw new Error(`Unknown stage: ${query.stage}`);
+  return {
+    ...parseListQuery(query),
+    status: status as TaskQuery['status'],
+    stage: query.stage || undefined,
+    model: query.model || undefined,
+  };
+};
+
+// --- Request Parsing ---
+
+// The only fields a client may set on a generate request. Settings are not among them: the engine
+// reads those from the config store, and "prompt" is the one per-request override of a saved setting.
+// Anything else, such as the settings object older clients still send, is dropped.
+const GENERATE_FIELDS: (keyof GenerateRequest)[] = [
+  'stage', 'model', 'size', 'aspect_ratio', 'input_images', 'prompt', 'extras', 'variations', 'idempotencyKey', 'forceRegenerate', 'projectId',
+];
+const PIPELINE_STEP_FIELDS: (keyof PipelineStepRequest)[] = ['stage', 'model', 'size', 'aspect_ratio', 'prompt', 'outputTo'];
+const PROJECT_FIELDS: (keyof ProjectFields)[] = ['name', 'sku', 'description', 'prompts'];
+
+const pickFields = <T>(body: any, fields: (keyof T)[]): T =>
+  Object.fromEntries(fields.filter(field => body?.[field] !== undefined).map(field => [field, body[field]])) as T;
+
+// Input images are references to uploaded images: an ID, or an object of which only the id is read.
+// The engine works with the stored records, never with paths or URLs from the request body.
+const loadInputImages = async (value: any): Promise<ImageItem[]> => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error("input_images must be a list of image IDs");
+  return Promise.all(value.map(async (ref: any) => {
+    const id = typeof ref === 'string' ? ref : ref?.id;
+    if (typeof id !== 'string' || !id) throw new Error("input_images must be a list of image IDs");
+    const image = await DB.getImage(id);
+    if (!image) throw new Error(`Unknown input image: ${id}`);
+    return image;
+  }));
+};
+
+const parseGenerateRequest = async (body: any): Promise<GenerateRequest> => ({
+  ...pickFields<GenerateRequest>(body, GENERATE_FIELDS),
+  input_images: await loadInputImages(body?.input_images),
+});
+
+const parseBatchRequest = async (body: any): Promise<BatchRequest> => {
+  if (!BATCH_MODES.includes(body?.mode)) throw new Error(`Unknown batch mode: ${body?.mode} (expected ${BATCH_MODES.join(' or ')})`);
+  return { ...await parseGenerateRequest(body), mode: body.mode };
+};
+
+const parsePipelineRequest = async (body: any): Promise<PipelineRequest> => ({
+  name: body?.name,
+  projectId: body?.projectId,
+  input_images: await loadInputImages(body?.input_images),
+  steps: Array.isArray(body?.steps) ? body.steps.map((step: any) => pickFields<PipelineStepRequest>(step, PIPELINE_STEP_FIELDS)) : [],
+});
+
+// Input slots an image can be moved to
+const IMAGE_CATEGORIES = Object.values(STAGE_SLOTS).flat().map(slot => slot.category);
+const MAX_TAGS = 20;
+
+// Metadata changes of PATCH /api/images/:id, trimmed; tags lose duplicates (case-insensitive).
+// Throws with a message for a 400 response.
+const parseImageUpdate = (body: any): ImageUpdate => {
+  const update: ImageUpdate = {};
+  if (body?.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 255) throw new Error("Name must be 1-255 characters");
+    update.name = name;
+  }
+  if (body?.category !== undefined) {
+    if (!IMAGE_CATEGORIES.includes(body.category)) throw new Error(`Unknown category: ${body.category}`);
+    update.category = body.category;
+  }
+  if (body?.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((tag: any) => typeof tag !== 'string')) throw new Error("tags must be a list of strings");
+    const tags: string[] = [];
+    for (const tag of body.tags.map((t: string) => t.trim()).filter(Boolean)) {
+      if (tag.length > 32) throw new Error(`Tag is longer than 32 characters: ${tag}`);
+      if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+    }
+    if (tags.length > MAX_TAGS) throw new Error(`At most ${MAX_TAGS} tags per image`);
+    update.tags = tags;
+  }
+  if (body?.notes !== undefined) {
+    if (typeof body.notes !== 'string' || body.notes.length > 2000) throw new Error("Notes must be text of at most 2000 characters");
+    update.notes = body.notes;
+  }
+  if (Object.keys(update).length === 0) throw new Error("Nothing to update: send name, category, tags or notes");
+  return update;
+};
+
 // --- Routes ---
 
+// Roles allowed to create tasks and upload
+const canGenerate = requireRole('admin', 'operator');
+
+// 0. Accounts
+const startSession = async (req: any, res: any, user: UserAccount) => {
+  const token = await createSession(user);
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'lax', secure: req.secure, maxAge: SESSION_TTL_MS, path: '/' });
+};
+
+// Public: who is signed in, and whether the first account still has to be created
+app.get('/api/auth/session', async (req: any, res: any) => {
+  try {
+    const session: AuthSession = { user: await authenticate(req), setupRequired: await DB.countUsers() === 0 };
+    res.json(session);
+  } catch (e: any) {
+    console.error("Get Session Error:", e);
+    res.status(500).json({ message: "Failed to check session" });
+  }
+});
+
+// Public, but only until the first account exists
+app.post('/api/auth/setup', async (req: any, res: any) => {
+  try {
+    const { username, password } = req.body || {};
+    const error = checkNewCredentials(username, password);
+    if (error) return res.status(400).json({ message: error });
+    if (await DB.countUsers() > 0) return res.status(403).json({ message: "An account already exists. Sign in instead." });
+    const user = await createFirstAdmin(username, password);
+    if (!user) return res.status(403).json({ message: "An account already exists. Sign in instead." });
+    await startSession(req, res, user);
+    res.json(user);
+  } catch (e: any) {
+    console.error("Setup Error:", e);
+    res.status(500).json({ message: "Failed to create account" });
+  }
+});
+
+app.post('/api/auth/login', async (req: any, res: any) => {
+  try {
+    const { username, password } = req.body || {};
+    const credentials = await DB.getCredentials(String(username || ''));
+    if (!credentials || !await verifyPassword(String(password || ''), credentials.passwordHash)) {
+      return res.status(401).json({ message: "Invalid username or password" });
+    }
+    await startSession(req, res, credentials.user);
+    res.json(credentials.user);
+  } catch (e: any) {
+    console.error("Login Error:", e);
+    res.status(500).json({ message: "Failed to sign in" });
+  }
+});
+
+app.post('/api/auth/logout', async (req: any, res: any) => {
+  try {
+    const token = readSessionCookie(req);
+    if (token) await endSession(token);
+    await closeRevokedEventStreams();
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    res.json({ success: true });
+  } catch (e: any) {
+    console.error("Logout Error:", e);
+    res.status(500).json({ message: "Failed to sign out" });
+  }
+});
+
+// Signs the account out of its other sessions; API tokens stay valid
+app.post('/api/auth/password', async (req: any, res: any) => {
+  try {
+    const { currentPassword, newPassword } = req.body || {};
+    const credentials = await DB.getCredentials(req.user.username);
+    if (!credentials || !await verifyPassword(String(currentPassword || ''), credentials.passwordHash)) {
+      return res.status(400).json({ message: "Current password is wrong" });
+    }
+    const error = checkNewPassword(newPassword);
+    if (error) return res.status(400).json({ message: error });
+    await DB.setPasswordHash(req.user.id, await hashPassword(newPassword));
+    await endOtherSessions(req.user, readSessionCookie(req) || '');
+    await closeRevokedEventStreams();
+    res.json({ success: true });
+  } catch (e: any) {
+    console.error("Change Password Error:", e);
+    res.status(500).json({ message: "Failed to change password" });
+  }
+});
+
+app.get('/api/users', requireRole('admin'), async (req: any, res: any) => {
+  try {
+    res.json(await DB.getUsers());
+  } catch (e: any) {
+    console.error("Get Users Error:", e);
+    res.status(500).json({ message: "Failed to load users" });
+  }
+});
+
+app.post('/api/users', requireRole('admin'), async (req: any, res: any) => {
+  const { username, password, role = 'operator' } = req.body || {};
+  const error = checkNewCredentials(username, password);
+  if (error) return res.status(400).json({ message: error });
+  if (!ROLES.includes(role)) return res.status(400).json({ message: `Unknown role: ${role}` });
+  try {
+    res.json(await createUser(username, password, role));
+  } catch (e: any) {
+    console.error("Create User Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+// Only the role can change; an admin cannot demote themselves, so there is always one left
+app.patch('/api/users/:id', requireRole('admin'), async (req: any, res: any) => {
+  const { role } = req.body || {};
+  if (!ROLES.includes(role)) return res.status(400).json({ message: `Unknown role: ${role}` });
+  if (req.params.id === req.user.id) return res.status(400).json({ message: "You cannot change your own role" });
+  try {
+    const user = await DB.updateUser(req.params.id, { role });
+    if (user) {
+        res.json(user);
+    } else {
+        res.status(404).json({ message: "User not found" });
+    }
+  } catch (e: any) {
+    console.error("Update User Error:", e);
+    res.status(500).json({ message: "Failed to update user" });
+  }
+});
+
+app.delete('/api/users/:id', requireRole('admin'), async (req: any, res: any) => {
+  try {
+    if (req.params.id === req.user.id) return res.status(400).json({ message: "You cannot delete your own account" });
+    const success = await DB.deleteUser(req.params.id);
+    if (success) {
+        await closeRevokedEventStreams();
+        res.json({ success: true });
+    } else {
+        res.status(404).json({ message: "User not found" });
+    }
+  } catch (e: any) {
+    console.error("Delete User Error:", e);
+    res.status(500).json({ message: "Failed to delete user" });
+  }
+});
+
+// Personal API tokens of the signed-in account
+app.get('/api/tokens', async (req: any, res: any) => {
+  try {
+    res.json(await DB.getApiTokens(req.user.id));
+  } catch (e: any) {
+    console.error("Get Tokens Error:", e);
+    res.status(500).json({ message: "Failed to load tokens" });
+  }
+});
+
+// The response is the only time the full token is shown
+app.post('/api/tokens', async (req: any, res: any) => {
+  const name = String(req.body?.name || '').trim();
+  if (!name || name.length > 64) return res.status(400).json({ message: "Token name must be 1-64 characters" });
+  try {
+    res.json(await createApiToken(req.user, name));
+  } catch (e: any) {
+    console.error("Create Token Error:", e);
+    res.status(500).json({ message: "Failed to create token" });
+  }
+});
+
+app.delete('/api/tokens/:id', async (req: any, res: any) => {
+  try {
+    const success = await DB.deleteApiToken(req.params.id, req.user.id);
+    if (success) {
+        await closeRevokedEventStreams();
+        res.json({ success: true });
+    } else {
+        res.status(404).json({ message: "Token not found" });
+    }
+  } catch (e: any) {
+    console.error("Delete Token Error:", e);
+    res.status(500).json({ message: "Failed to delete token" });
+  }
+});
+
 // 1. Config
 app.get('/api/config', async (req: any, res: any) => {
   try {
     const config = await DB.getConfig();
-    res.json(config);
+    res.json(redactSecrets(config));
   } catch (e: any) {
     console.error("Get Config Error:", e);
     res.status(500).json({ message: "Failed to get config" });
   }
 });
 
-app.post('/api/config', async (req: any, res: any) => {
+// Any other value would leave the engine without a limit
+const checkConcurrency = (value: any): string | null =>
+  Number.isInteger(value) && value >= 1 ? null : "Concurrency must be a whole number, 1 or more.";
+
+app.post('/api/config', requireRole('admin'), async (req: any, res: any) => {
+  const error = checkConcurrency(req.body?.concurrency) || checkQuotaRules(req.body?.quotas) || checkPriceRules(req.body?.prices) || checkBudgetRule(req.body?.budget);
+  if (error) return res.status(400).json({ message: error });
   try {
-    await DB.saveConfig(req.body);
-    engine.updateConcurrency(req.body.concurrency);
-    res.json({ success: true });
+    const config = keepStoredSecrets(req.body, await DB.getConfig());
+    await DB.saveConfig(config);
+    engine.updateConcurrency(config.concurrency);
+    res.json({ success: true, config: redactSecrets(config) });
   } catch (e: any) {
     console.error("Save Config Error:", e);
     res.status(500).json({ message: "Failed to save config" });
   }
 });
 
+// Model catalog (server/models.json)
+app.get('/api/models', (req: any, res: any) => {
+  try {
+    res.json(getModelCatalog());
+  } catch (e: any) {
+    console.error("Get Models Error:", e);
+    res.status(500).json({ message: "Failed to load models" });
+  }
+});
+
+// Quota rules that apply to the caller, with what is left of them
+app.get('/api/quota', async (req: any, res: any) => {
+  try {
+    res.json(await getQuotaStatus(req.user.username, await DB.getConfig()));
+  } catch (e: any) {
+    console.error("Get Quota Error:", e);
+    res.status(500).json({ message: "Failed to load quota" });
+  }
+});
+
+// Spend summary for everyone to see; from/to default to the current month so far
+app.get('/api/usage', async (req: any, res: any) => {
+  let range: ListQuery;
+  try {
+    range = parseListQuery({ from: req.query.from, to: req.query.to });
+  } catch (e: any) {
+    return res.status(400).json({ message: e.message });
+  }
+  try {
+    const from = range.from ?? periodBounds('month').start.getTime();
+    const to = range.to ?? Date.now() + 1;
+    res.json(await getUsage(from, to, await DB.getConfig()));
+  } catch (e: any) {
+    console.error("Get Usage Error:", e);
+    res.status(500).json({ message: "Failed to load usage" });
+  }
+});
+
 // 2. Images (Upload & List & Delete)
-app.post('/api/upload', upload.single('file') as any, async (req: any, res: any) => {
+app.post('/api/upload', canGenerate, upload.single('file') as any, async (req: any, res: any) => {
   try {
     const file = req.file;
     if (!file) return res.status(400).send("No file uploaded");
+    const projectId = req.body.projectId || undefined;
+    const projectError = await checkProject(projectId);
+    if (projectError) {
+      await fs.remove(file.path);
+      return res.status(400).send(projectError);
+    }
     
     const relativeUrl = `/files/inputs/${file.filename}`;
     
     const imageItem: ImageItem = {
-      id: req.body.id || Date.now().toString(),
+      // Always the server's: an ID from the client could replace someone else's image
+      id: `img-${Date.now()}-${uuidv4().substr(0, 8)}`,
       url: relativeUrl, 
       local_path: file.path, // Store absolute path from multer
       name: Buffer.from(file.originalname, 'latin1').toString('utf8'), 
       category: req.body.category || 'uncategorized',
-      selected: false
+      selected: false,
+      owner: req.user.username,
+      projectId,
     };
 
     await DB.addImage(imageItem);
@@ -150,18 +586,45 @@ app.post('/api/upload', upload.single('file') as any, async (req: any, res: any)
   }
 });
 
+// ?category=&project=<id>|none&q=&from=&to=&sort=newest|oldest&limit=&offset=|cursor=
+// q matches names and tags
 app.get('/api/images', async (req: any, res: any) => {
+  let query;
+  try {
+    query = { ...parseListQuery(req.query), category: req.query.category || undefined };
+  } catch (e: any) {
+    return res.status(400).json({ message: e.message });
+  }
   try {
-    const images = await DB.getImages();
-    res.json(images);
+    res.json(await DB.queryImages(query));
   } catch (e: any) {
     console.error("Get Images Error:", e);
     res.status(500).json({ message: "Failed to load images" });
   }
 });
 
-app.delete('/api/images/:id', async (req: any, res: any) => {
+app.patch('/api/images/:id', canGenerate, async (req: any, res: any) => {
+  let update: ImageUpdate;
   try {
+    update = parseImageUpdate(req.body);
+  } catch (e: any) {
+    return res.status(400).json({ message: e.message });
+  }
+  try {
+    const image = await DB.getImage(req.params.id);
+    if (!image) return res.status(404).json({ message: "Image not found" });
+    if (!canModify(req.user, image.owner)) return res.status(403).json({ message: "You can only edit your own images" });
+    res.json(await DB.updateImage(image.id, update));
+  } catch (e: any) {
+    console.error("Update Image Error:", e);
+    res.status(500).json({ message: "Failed to update image" });
+  }
+});
+
+app.delete('/api/images/:id', canGenerate, async (req: any, res: any) => {
+  try {
+    const image = await DB.getImage(req.params.id);
+    if (image && !canModify(req.user, image.owner)) return res.status(403).json({ message: "You can only delete your own images" });
     const success = await DB.deleteImage(req.params.id);
     if (success) {
         res.json({ success: true });
@@ -175,9 +638,9 @@ app.delete('/api/images/:id', async (req: any, res: any) => {
 });
 
 // 3. Generate
-app.post('/api/generate', async (req: any, res: any) => {
+app.post('/api/generate', canGenerate, async (req: any, res: any) => {
   try {
-    const task = await engine.submitTask(req.body);
+    const task = await engine.submitTask(await parseGenerateRequest(req.body), { owner: req.user.username });
     res.json(task);
   } catch (e: any) {
     console.error("Generate Error:", e);
@@ -185,21 +648,193 @@ app.post('/api/generate', async (req: any, res: any) => {
   }
 });
 
+app.post('/api/generate/preview', canGenerate, async (req: any, res: any) => {
+  try {
+    res.json(await engine.previewRequest(await parseGenerateRequest(req.body)));
+  } catch (e: any) {
+    console.error("Preview Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+app.post('/api/generate/batch', canGenerate, async (req: any, res: any) => {
+  try {
+    const result = await engine.submitBatch(await parseBatchRequest(req.body), req.user.username);
+    res.json(result);
+  } catch (e: any) {
+    console.error("Batch Generate Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+// ?project=<id>|none&q=&from=&to=&sort=newest|oldest&limit=&offset=|cursor=
+app.get('/api/batches', async (req: any, res: any) => {
+  let query;
+  try {
+    query = parseListQuery(req.query);
+  } catch (e: any) {
+    return res.status(400).json({ message: e.message });
+  }
+  try {
+    res.json(await DB.queryBatches(query));
+  } catch (e: any) {
+    console.error("Get Batches Error:", e);
+    res.status(500).json({ message: "Failed to load batches" });
+  }
+});
+
+app.post('/api/pipelines', canGenerate, async (req: any, res: any) => {
+  try {
+    const run = await engine.submitPipeline(await parsePipelineRequest(req.body), req.user.username);
+    res.json(run);
+  } catch (e: any) {
+    console.error("Pipeline Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+// Same parameters as /api/batches
+app.get('/api/pipelines', async (req: any, res: any) => {
+  let query;
+  try {
+    query = parseListQuery(req.query);
+  } catch (e: any) {
+    return res.status(400).json({ message: e.message });
+  }
+  try {
+    res.json(await DB.queryPipelines(query));
+  } catch (e: any) {
+    console.error("Get Pipelines Error:", e);
+    res.status(500).json({ message: "Failed to load pipelines" });
+  }
+});
+
 // 4. Tasks (History)
+// ?status=a,b&stage=&model=&project=<id>|none&q=&from=&to=&sort=newest|oldest&limit=&offset=|cursor=
+// Records come without logs; GET /api/tasks/:id has them.
 app.get('/api/tasks', async (req: any, res: any) => {
+  let query;
+  try {
+    query = parseTaskQuery(req.query);
+  } catch (e: any) {
+    return res.status(400).json({ message: e.message });
+  }
   try {
-    const tasks = await DB.getTasks();
-    res.json(tasks);
+    res.json(await DB.queryTasks(query));
   } catch (e: any) {
     console.error("Get Tasks Error:", e);
     res.status(500).json({ message: "Failed to load tasks" });
   }
 });
 
+app.get('/api/tasks/:id', async (req: any, res: any) => {
+  try {
+    const task = await DB.getTask(req.params.id);
+    if (!task) return res.status(404).json({ message: "Task not found" });
+    res.json({ ...task, logs: await DB.getTaskLogs(task.id) });
+  } catch (e: any) {
+    console.error("Get Task Error:", e);
+    res.status(500).json({ message: "Failed to load task" });
+  }
+});
+
+app.post('/api/tasks/:id/retry', canGenerate, async (req: any, res: any) => {
+  try {
+    const task = await engine.resubmitTask(req.params.id, {}, req.user.username);
+    res.json(task);
+  } catch (e: any) {
+    console.error("Retry Task Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+app.post('/api/tasks/:id/remix', canGenerate, async (req: any, res: any) => {
+  try {
+    const { model, size, aspect_ratio, prompt } = req.body || {};
+    const task = await engine.resubmitTask(req.params.id, { model, size, aspect_ratio, prompt }, req.user.username);
+    res.json(task);
+  } catch (e: any) {
+    console.error("Remix Task Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+app.post('/api/tasks/:id/cancel', canGenerate, async (req: any, res: any) => {
+  try {
+    const task = await DB.getTask(req.params.id);
+    if (task && !canModify(req.user, task.owner)) return res.status(403).json({ message: "You can only cancel your own tasks" });
+    const cancelled = await engine.cancelTask(req.params.id);
+    if (cancelled) {
+        res.json({ success: true });
+    } else {
+        res.status(404).json({ message: "Task is not pending or running" });
+    }
+  } catch (e: any) {
+    console.error("Cancel Task Error:", e);
+    res.status(500).json({ message: "Failed to cancel task" });
+  }
+});
+
+// 5. Projects
+app.get('/api/projects', async (req: any, res: any) => {
+  try {
+    res.json(await DB.getProjects());
+  } catch (e: any) {
+    console.error("Get Projects Error:", e);
+    res.status(500).json({ message: "Failed to load projects" });
+  }
+});
+
+app.post('/api/projects', canGenerate, async (req: any, res: any) => {
+  const fields = pickFields<ProjectFields>(req.body, PROJECT_FIELDS);
+  const error = checkProjectFields(fields);
+  if (error) return res.status(400).json({ message: error });
+  try {
+    res.json(await createProject(fields, req.user.username));
+  } catch (e: any) {
+    console.error("Create Project Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+app.patch('/api/projects/:id', canGenerate, async (req: any, res: any) => {
+  const fields = pickFields<ProjectFields>(req.body, PROJECT_FIELDS);
+  const error = checkProjectFields(fields, true);
+  if (error) return res.status(400).json({ message: error });
+  try {
+    const project = await DB.getProject(req.params.id);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+    if (!canModify(req.user, project.owner)) return res.status(403).json({ message: "You can only edit your own projects" });
+    res.json(await updateProject(project, fields));
+  } catch (e: any) {
+    console.error("Update Project Error:", e);
+    res.status(400).json({ message: e.message });
+  }
+});
+
+// Images and tasks of the project are kept, outside any project
+app.delete('/api/projects/:id', canGenerate, async (req: any, res: any) => {
+  try {
+    const project = await DB.getProject(req.params.id);
+    if (!project) return res.status(404).json({ message: "Project not found" });
+    if (!canModify(req.user, project.owner)) return res.status(403).json({ message: "You can only delete your own projects" });
+    await DB.deleteProject(project.id);
+    res.json({ success: true });
+  } catch (e: any) {
+    console.error("Delete Project Error:", e);
+    res.status(500).json({ message: "Failed to delete project" });
+  }
+});
+
 // Initialize DB state and Start Server
-DB.recoverState().then(() => {
+DB.recoverState().then((interrupted) => {
+  engine.resumeTasks(interrupted).catch((e) => {
+    console.error("Failed to resume interrupted tasks:", e);
+  });
+
   const server = app.listen(PORT, '0.0.0.0', () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    console.log(`Accepting browser requests from: ${ALLOWED_ORIGINS.join(', ')}`);
   });
 
   server.on('error', (e) => {
@@ -0,0 +1,374 @@
+import * as fs from 'fs-extra';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { SECRET_SETTINGS } from './types';
+import { encryptSecret } from './secrets';
+import { requestFingerprint, idTimestamp } from './utils';
+
+// Fix for missing Node types
+declare var __dirname: string;
+
+const DATA_DIR = path.join(__dirname, 'data');
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Reads one of the JSON files used before the SQLite store, or null if it is missing or unreadable
+const readLegacyJson = (file: string): any => {
+  try {
+    return fs.existsSync(file) ? fs.readJSONSync(file) : null;
+  } catch (e) {
+    console.error(`Skipping unreadable ${file}:`, e);
+    return null;
+  }
+};
+
+// Append only: a released migration must never change, add a new one instead
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial-schema',
+    up: (db) => {
+      // Records are stored whole as JSON in "data"; the other columns are copies used for lookups.
+      // Lists are returned newest first by rowid, i.e. insertion order.
+      db.exec(`
+        CREATE TABLE tasks (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX idx_tasks_status ON tasks(status);
+
+        CREATE TABLE task_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          task_id TEXT NOT NULL,
+          line TEXT NOT NULL
+        );
+        CREATE INDEX idx_task_logs_task ON task_logs(task_id);
+
+        CREATE TABLE images (
+          id TEXT PRIMARY KEY,
+          data TEXT NOT NULL
+        );
+
+        CREATE TABLE configs (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+
+        CREATE TABLE batches (
+          id TEXT PRIMARY KEY,
+          data TEXT NOT NULL
+        );
+
+        CREATE TABLE pipelines (
+          id TEXT PRIMARY KEY,
+          data TEXT NOT NULL
+        );
+
+        CREATE TABLE upload_cache (
+          key TEXT PRIMARY KEY,
+          url TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE result_cache (
+          key TEXT PRIMARY KEY,
+          data TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'import-json-files',
+    // One-time import of the data/*.json store. The files are left in place as a backup.
+    up: (db) => {
+      // The JSON lists are newest first; insert oldest first so rowid order matches
+      const importList = (file: string, insert: (item: any) => void) => {
+        const items = readLegacyJson(path.join(DATA_DIR, file));
+        if (!Array.isArray(items)) return;
+        [...items].reverse().forEach(insert);
+        console.log(`Imported ${items.length} record(s) from ${file}.`);
+      };
+
+      const insertTask = db.prepare('INSERT OR REPLACE INTO tasks (id, status, data) VALUES (?, ?, ?)');
+      const insertLog = db.prepare('INSERT INTO task_logs (task_id, line) VALUES (?, ?)');
+      importList('tasks.json', (task) => {
+        const { logs, ...record } = task;
+        insertTask.run(record.id, record.status, JSON.stringify(record));
+        const logFile = path.join(DATA_DIR, 'logs', `${record.id}.log`);
+        if (fs.existsSync(logFile)) {
+          fs.readFileSync(logFile, 'utf8').split('\n').filter(line => line.trim().length > 0)
+            .forEach(line => insertLog.run(record.id, line));
+        }
+      });
+
+      const insertImage = db.prepare('INSERT OR REPLACE INTO images (id, data) VALUES (?, ?)');
+      importList('images.json', (image) => insertImage.run(image.id, JSON.stringify(image)));
+
+      const insertBatch = db.prepare('INSERT OR REPLACE INTO batches (id, data) VALUES (?, ?)');
+      importList('batches.json', (batch) => insertBatch.run(batch.id, JSON.stringify(batch)));
+
+      const insertPipeline = db.prepare('INSERT OR REPLACE INTO pipelines (id, data) VALUES (?, ?)');
+      importList('pipelines.json', (pipeline) => insertPipeline.run(pipeline.id, JSON.stringify(pipeline)));
+
+      // config.json, or the data.json of even older versions
+      const config = readLegacyJson(path.join(DATA_DIR, 'config.json')) || readLegacyJson(path.join(__dirname, 'data.json'));
+      if (config) {
+        const insertConfig = db.prepare('INSERT INTO configs (key, value) VALUES (?, ?)');
+        for (const [key, value] of Object.entries(config)) insertConfig.run(key, JSON.stringify(value));
+        console.log("Imported settings from JSON config.");
+      }
+
+      const uploadCache = readLegacyJson(path.join(DATA_DIR, 'upload-cache.json')) || {};
+      const insertUpload = db.prepare('INSERT INTO upload_cache (key, url, expires_at) VALUES (?, ?, ?)');
+      for (const [key, entry] of Object.entries<any>(uploadCache)) insertUpload.run(key, entry.url, entry.expiresAt);
+
+      const resultCache = readLegacyJson(path.join(DATA_DIR, 'result-cache.json')) || {};
+      const insertResult = db.prepare('INSERT INTO result_cache (key, data) VALUES (?, ?)');
+      for (const [key, entry] of Object.entries(resultCache)) insertResult.run(key, JSON.stringify(entry));
+    },
+  },
+  {
+    version: 3,
+    name: 'list-query-columns',
+    // Columns for server-side filtering of GET /api/tasks and /api/images; "search" is lower-cased text
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN stage TEXT;
+        ALTER TABLE tasks ADD COLUMN model TEXT;
+        ALTER TABLE tasks ADD COLUMN created_at INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE tasks ADD COLUMN search TEXT NOT NULL DEFAULT '';
+        CREATE INDEX idx_tasks_stage ON tasks(stage);
+        CREATE INDEX idx_tasks_model ON tasks(model);
+        CREATE INDEX idx_tasks_created ON tasks(created_at);
+
+        ALTER TABLE images ADD COLUMN category TEXT;
+        ALTER TABLE images ADD COLUMN created_at INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE images ADD COLUMN search TEXT NOT NULL DEFAULT '';
+        CREATE INDEX idx_images_category ON images(category);
+        CREATE INDEX idx_images_created ON images(created_at);
+      `);
+
+      const updateTask = db.prepare('UPDATE tasks SET stage = ?, model = ?, created_at = ?, search = ? WHERE id = ?');
+      for (const row of db.prepare('SELECT data FROM tasks').all() as any[]) {
+        const t = JSON.parse(row.data);
+        const names = [...(t.inputImages || []), ...(t.outputImages || [])].map((img: any) => img.name);
+        updateTask.run(
+          t.params?.stage || String(t.type || '').toLowerCase().replace(/ /g, '_'),
+          t.model,
+          Date.parse(t.startTime) || 0,
+          [t.id, t.type, t.model, ...names].join(' ').toLowerCase(),
+          t.id
+        );
+      }
+
+      // Images have no timestamp field; uploaded ones use Date.now() as id
+      const updateImage = db.prepare('UPDATE images SET category = ?, created_at = ?, search = ? WHERE id = ?');
+      for (const row of db.prepare('SELECT data FROM images').all() as any[]) {
+        const img = JSON.parse(row.data);
+        const idTime = parseInt(img.id, 10);
+        updateImage.run(img.category, idTime > 1e12 ? idTime : 0, String(img.name || '').toLowerCase(), img.id);
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'encrypt-config-secrets',
+    // Secrets were stored in plaintext until now, including in the JSON files kept by migration 2
+    up: (db) => {
+      const select = db.prepare('SELECT value FROM configs WHERE key = ?');
+      const update = db.prepare('UPDATE configs SET value = ? WHERE key = ?');
+      for (const field of SECRET_SETTINGS) {
+        const row: any = select.get(field);
+        if (row) update.run(JSON.stringify(encryptSecret(JSON.parse(row.value))), field);
+      }
+
+      for (const file of [path.join(DATA_DIR, 'config.json'), path.join(__dirname, 'data.json')]) {
+        const legacy = readLegacyJson(file);
+        if (!legacy || !SECRET_SETTINGS.some(field => legacy[field])) continue;
+        for (const field of SECRET_SETTINGS) delete legacy[field];
+        fs.writeJSONSync(file, legacy, { spaces: 2 });
+        console.log(`Removed plaintext secrets from ${file}.`);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'accounts',
+    // Sessions and API tokens are looked up by the sha256 of the token; the token itself is never stored
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE users (
+          id TEXT PRIMARY KEY,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          password_hash TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+
+        CREATE TABLE sessions (
+          token_hash TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_sessions_user ON sessions(user_id);
+
+        CREATE TABLE api_tokens (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX idx_api_tokens_user ON api_tokens(user_id);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'roles-and-owners',
+    up: (db) => {
+      // The first account set the server up, so it becomes the admin
+      const users = db.prepare('SELECT id, data FROM users ORDER BY rowid').all() as any[];
+      const updateUser = db.prepare('UPDATE users SET data = ? WHERE id = ?');
+      users.forEach((row, i) => updateUser.run(JSON.stringify({ ...JSON.parse(row.data), role: i === 0 ? 'admin' : 'operator' }), row.id));
+
+      // For quota counting and ownership checks
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN owner TEXT;
+        CREATE INDEX idx_tasks_owner ON tasks(owner, created_at);
+        ALTER TABLE images ADD COLUMN owner TEXT;
+      `);
+      db.exec(`
+        UPDATE tasks SET owner = json_extract(data, '$.owner');
+        UPDATE images SET owner = json_extract(data, '$.owner');
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'task-costs',
+    // What each task counts towards spend, kept up to date by writeTask. Older tasks have no price and stay at 0.
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN cost REAL NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'projects',
+    // Existing tasks and images belong to no project and keep project_id NULL
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE projects (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          data TEXT NOT NULL
+        );
+
+        ALTER TABLE tasks ADD COLUMN project_id TEXT;
+        CREATE INDEX idx_tasks_project ON tasks(project_id);
+        ALTER TABLE images ADD COLUMN project_id TEXT;
+        CREATE INDEX idx_images_project ON images(project_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'idempotency-keys',
+    // So a repeated submit is found by key instead of by parsing every record
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN idempotency_key TEXT;
+        CREATE INDEX idx_tasks_idempotency ON tasks(idempotency_key);
+        ALTER TABLE batches ADD COLUMN idempotency_key TEXT;
+        CREATE INDEX idx_batches_idempotency ON batches(idempotency_key);
+      `);
+      db.exec(`
+        UPDATE tasks SET idempotency_key = json_extract(data, '$.idempotencyKey');
+        UPDATE batches SET idempotency_key = json_extract(data, '$.idempotencyKey');
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'batch-pipeline-list-columns',
+    // Same list columns as tasks, so GET /api/batches and /api/pipelines can filter and page
+    up: (db) => {
+      for (const table of ['batches', 'pipelines']) {
+        db.exec(`
+          ALTER TABLE ${table} ADD COLUMN created_at INTEGER NOT NULL DEFAULT 0;
+          ALTER TABLE ${table} ADD COLUMN search TEXT NOT NULL DEFAULT '';
+          ALTER TABLE ${table} ADD COLUMN project_id TEXT;
+          CREATE INDEX idx_${table}_project ON ${table}(project_id);
+        `);
+      }
+      const updateBatch = db.prepare('UPDATE batches SET created_at = ?, search = ?, project_id = ? WHERE id = ?');
+      for (const row of db.prepare('SELECT data FROM batches').all() as any[]) {
+        const b = JSON.parse(row.data);
+        updateBatch.run(Date.parse(b.createdAt) || 0, [b.id, b.stage, b.model].join(' ').toLowerCase(), b.projectId ?? null, b.id);
+      }
+      const updatePipeline = db.prepare('UPDATE pipelines SET created_at = ?, search = ?, project_id = ? WHERE id = ?');
+      for (const row of db.prepare('SELECT data FROM pipelines').all() as any[]) {
+        const p = JSON.parse(row.data);
+        updatePipeline.run(Date.parse(p.createdAt) || 0, [p.id, p.name].join(' ').toLowerCase(), p.projectId ?? null, p.id);
+      }
+    },
+  },
+  {
+    version: 11,
+    name: 'task-fingerprints',
+    // So an identical active request is found by index instead of fingerprinting every active task
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN fingerprint TEXT;
+        CREATE INDEX idx_tasks_fingerprint ON tasks(fingerprint);
+      `);
+      const update = db.prepare('UPDATE tasks SET fingerprint = ? WHERE id = ?');
+      for (const row of db.prepare("SELECT id, data FROM tasks WHERE json_extract(data, '$.params') IS NOT NULL").all() as any[]) {
+        update.run(requestFingerprint(JSON.parse(row.data).params), row.id);
+      }
+    },
+  },
+  {
+    version: 12,
+    name: 'created-at-from-ids',
+    // Earlier backfills parsed toLocaleString() dates, which gives 0 under most non-English locales.
+    // Generated IDs carry the creation time; rows without one keep what they have.
+    up: (db) => {
+      for (const table of ['tasks', 'batches', 'pipelines', 'images']) {
+        const update = db.prepare(`UPDATE ${table} SET created_at = ? WHERE id = ?`);
+        for (const row of db.prepare(`SELECT id FROM ${table}`).all() as any[]) {
+          const time = idTimestamp(row.id);
+          if (time) update.run(time, row.id);
+        }
+      }
+    },
+  },
+];
+
+// Applies pending migrations in order, each in its own transaction
+export const migrate = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+  const applied = new Set(db.prepare('SELECT version FROM schema_migrations').all().map((row: any) => row.version));
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    console.log(`DB migration ${migration.version} (${migration.name}) applied.`);
+  }
+};
@@ -0,0 +1,149 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPayload, checkExtras, PayloadInput } from './payload';
+import { ModelConfig } from './types';
+import catalog from './models.json';
+
+const MODELS = catalog as ModelConfig[];
+const LINKS = ['https://img/1.png', 'https://img/2.png'];
+
+const model = (id: string): ModelConfig => {
+  const config = MODELS.find(m => m.id === id);
+  if (!config) throw new Error(`${id} is not in models.json`);
+  return config;
+};
+
+// One row per request shape; the expected payload is compared as a whole
+const CASES: { name: string; model: string; input: Partial<PayloadInput>; expected: any }[] = [
+  // Seedream: 2K maps to exact pixels, other sizes put the ratio in the prompt
+  {
+    name: 'seedream 4.0, 2K uses the pixel map',
+    model: 'doubao-seedream-4.0',
+    input: { size: '2K', aspect_ratio: '16:9' },
+    expected: { model: 'doubao-seedream-4.0', image: LINKS, size: '2560x1440', prompt: 'P' },
+  },
+  {
+    name: 'seedream 4.0, 1K appends --ratio',
+    model: 'doubao-seedream-4.0',
+    input: { size: '1K', aspect_ratio: '3:4' },
+    expected: { model: 'doubao-seedream-4.0', image: LINKS, size: '1K', prompt: 'P --ratio 3:4' },
+  },
+  {
+    name: 'seedream 4.0, 4K appends --ratio',
+    model: 'doubao-seedream-4.0',
+    input: { size: '4K', aspect_ratio: '21:9' },
+    expected: { model: 'doubao-seedream-4.0', image: LINKS, size: '4K', prompt: 'P --ratio 21:9' },
+  },
+  {
+    name: 'seedream 4.0, 2K Auto sends the plain size',
+    model: 'doubao-seedream-4.0',
+    input: { size: '2K', aspect_ratio: 'Auto' },
+    expected: { model: 'doubao-seedream-4.0', image: LINKS, size: '2K', prompt: 'P' },
+  },
+  {
+    name: 'seedream 4.0, 1K Auto leaves the prompt alone',
+    model: 'doubao-seedream-4.0',
+    input: { size: '1K', aspect_ratio: 'Auto' },
+    expected: { model: 'doubao-seedream-4.0', image: LINKS, size: '1K', prompt: 'P' },
+  },
+  {
+    name: 'seedream 4.0, variations go to n',
+    model: 'doubao-seedream-4.0',
+    input: { size: '1K', aspect_ratio: '1:1', variations: 3 },
+    expected: { model: 'doubao-seedream-4.0', image: LINKS, size: '1K', prompt: 'P --ratio 1:1', n: 3 },
+  },
+  {
+    name: 'seedream 4.5, 2K uses the pixel map',
+    model: 'doubao-seedream-4.5',
+    input: { size: '2K', aspect_ratio: '21:9' },
+    expected: { model: 'doubao-seedream-4.5', image: LINKS, size: '3024x1296', prompt: 'P' },
+  },
+  {
+    name: 'seedream 4.5, 4K appends --ratio',
+    model: 'doubao-seedream-4.5',
+    input: { size: '4K', aspect_ratio: '9:16', variations: 2 },
+    expected: { model: 'doubao-seedream-4.5', image: LINKS, size: '4K', prompt: 'P --ratio 9:16', n: 2 },
+  },
+  // Jimeng: size only, the ratio is dropped
+  {
+    name: 'jimeng drops the ratio',
+    model: 'jimeng_t2i_v40',
+    input: { size: '2K', aspect_ratio: '16:9' },
+    expected: { model: 'jimeng_t2i_v40', image: LINKS, size: '2K', prompt: 'P' },
+  },
+  {
+    name: 'jimeng, one variation sends no n',
+    model: 'jimeng_t2i_v40',
+    input: { size: '1K', aspect_ratio: 'Auto', variations: 1 },
+    expected: { model: 'jimeng_t2i_v40', image: LINKS, size: '1K', prompt: 'P' },
+  },
+  {
+    name: 'jimeng, variations go to n',
+    model: 'jimeng_t2i_v40',
+    input: { size: '4K', aspect_ratio: '1:1', variations: 4 },
+    expected: { model: 'jimeng_t2i_v40', image: LINKS, size: '4K', prompt: 'P', n: 4 },
+  },
+  // Nano Banana: aspect_ratio field; only nano-banana-2 sends a size
+  {
+    name: 'nano-banana-hd sends aspect_ratio without size',
+    model: 'nano-banana-hd',
+    input: { size: '4K', aspect_ratio: '4:5' },
+    expected: { model: 'nano-banana-hd', image: LINKS, aspect_ratio: '4:5', prompt: 'P' },
+  },
+  {
+    name: 'nano-banana sends aspect_ratio without size',
+    model: 'nano-banana',
+    input: { size: '1K', aspect_ratio: '16:9' },
+    expected: { model: 'nano-banana', image: LINKS, aspect_ratio: '16:9', prompt: 'P' },
+  },
+  {
+    name: 'nano-banana, Auto sends neither size nor ratio',
+    model: 'nano-banana',
+    input: { size: '1K', aspect_ratio: 'Auto', variations: 2 },
+    expected: { model: 'nano-banana', image: LINKS, prompt: 'P', n: 2 },
+  },
+  {
+    name: 'nano-banana-2 sends size and aspect_ratio',
+    model: 'nano-banana-2',
+    input: { size: '2K', aspect_ratio: '3:2' },
+    expected: { model: 'nano-banana-2', image: LINKS, size: '2K', aspect_ratio: '3:2', prompt: 'P' },
+  },
+  {
+    name: 'nano-banana-2, Auto sends the size only',
+    model: 'nano-banana-2',
+    input: { size: '4K', aspect_ratio: 'Auto', variations: 4 },
+    expected: { model: 'nano-banana-2', image: LINKS, size: '4K', prompt: 'P', n: 4 },
+  },
+];
+
+for (const c of CASES) {
+  test(`buildPayload: ${c.name}`, () => {
+    const input: PayloadInput = { size: '1K', aspect_ratio: 'Auto', prompt: 'P', inputLinks: LINKS, ...c.input };
+    assert.deepEqual(buildPayload(model(c.model), input), c.expected);
+  });
+}
+
+test('every model in models.json has a payload case', () => {
+  const covered = new Set(CASES.map(c => c.model));
+  assert.deepEqual(MODELS.map(m => m.id).filter(id => !covered.has(id)), []);
+});
+
+// No catalog entry uses extras yet, so this adds them to a copy of one
+const withExtras: ModelConfig = {
+  ...model('nano-banana-2'),
+  payload: { ...model('nano-banana-2').payload, extras: { watermark: 'false', quality: 'standard' }, extraParams: ['seed', 'quality'] },
+};
+
+test('buildPayload: extras keep allowed request fields over fixed ones and drop the rest', () => {
+  const payload = buildPayload(withExtras, {
+    size: '1K', aspect_ratio: 'Auto', prompt: 'P', inputLinks: LINKS,
+    extras: { seed: 7, quality: 'hd', watermark: 'true', model: 'other' },
+  });
+  assert.deepEqual(payload, { model: 'nano-banana-2', image: LINKS, size: '1K', prompt: 'P', watermark: 'false', quality: 'hd', seed: 7 });
+});
+
+test('checkExtras: names the fields a model does not accept', () => {
+  assert.equal(checkExtras(withExtras, { seed: 1, quality: 'hd' }), null);
+  assert.equal(checkExtras(withExtras, { seed: 1, watermark: 'true' }), 'nano-banana-2 does not accept parameter(s): watermark');
+  assert.equal(checkExtras(model('nano-banana'), undefined), null);
+});
@@ -0,0 +1,63 @@
+import { ModelConfig } from './types';
+
+export interface PayloadInput {
+  size: string;
+  aspect_ratio: string;
+  prompt: string; // Resolved stage or per-request prompt
+  inputLinks: string[];
+  extras?: Record<string, number | string>;
+  variations?: number;
+}
+
+// Applies a model's declarative adapter (models.json "payload") to one request.
+// Pure function: no settings, no I/O, so the catalog alone decides the payload shape.
+export const buildPayload = (model: ModelConfig, input: PayloadInput): any => {
+  const adapter = model.payload || {};
+  const { size, aspect_ratio, inputLinks } = input;
+  const isAuto = aspect_ratio === "Auto";
+  let prompt = input.prompt + (adapter.promptSuffix || "");
+
+  const payload: any = {
+    model: model.id,
+    [adapter.imageField || 'image']: inputLinks,
+  };
+
+  // Size, possibly as exact pixels that already encode the ratio
+  const pixels = adapter.pixelSizes?.[size];
+  let ratioHandled = false;
+  if (pixels) {
+    payload.size = isAuto ? size : (pixels[aspect_ratio] || size);
+    ratioHandled = isAuto || !!pixels[aspect_ratio];
+  } else if (adapter.size !== 'omit') {
+    payload.size = size;
+  }
+
+  // Aspect ratio
+  if (!isAuto && !ratioHandled) {
+    if (adapter.ratio === 'param') {
+      payload.aspect_ratio = aspect_ratio;
+    } else if (adapter.ratio === 'prompt') {
+      prompt += (adapter.ratioPromptTemplate ?? " --ratio {ratio}").replace('{ratio}', aspect_ratio);
+    }
+  }
+  payload.prompt = prompt;
+
+  if ((input.variations || 1) > 1 && adapter.variations) {
+    payload[adapter.variations.field] = input.variations;
+  }
+
+  // Fixed extras first, so a request can override the ones it is allowed to set
+  Object.assign(payload, adapter.extras);
+  for (const [key, value] of Object.entries(input.extras || {})) {
+    if (adapter.extraParams?.includes(key)) payload[key] = value;
+  }
+
+  return payload;
+};
+
+// Returns an error message if the request sets extras the model does not accept
+export const checkExtras = (model: ModelConfig, extras?: Record<string, number | string>): string | null => {
+  const unknown = Object.keys(extras || {}).filter(key => !model.payload?.extraParams?.includes(key));
+  if (unknown.length > 0) return `${model.id} does not accept parameter(s): ${unknown.join(', ')}`;
+  return null;
+};
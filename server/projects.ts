@@ -0,0 +1,90 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DB } from './db';
+import { AppSettings, Project, ProjectPrompts } from './types';
+
+const PROMPT_FIELDS: (keyof ProjectPrompts)[] = ['promptHairstyle', 'promptAssembly', 'promptReplacement'];
+
+// Fields a client may set on a project; id, folder, owner and createdAt are the server's
+export type ProjectFields = Pick<Project, 'name' | 'sku' | 'description' | 'prompts'>;
+
+// Returns an error message, or null if the fields are acceptable. With `partial`, missing fields are left alone.
+export const checkProjectFields = (fields: Partial<ProjectFields>, partial = false): string | null => {
+  if (!partial || fields.name !== undefined) {
+    if (typeof fields.name !== 'string' || !fields.name.trim() || fields.name.trim().length > 64) {
+      return "Project name must be 1-64 characters.";
+    }
+  }
+  if (fields.sku !== undefined && (typeof fields.sku !== 'string' || fields.sku.length > 64)) return "SKU must be at most 64 characters.";
+  if (fields.description !== undefined && (typeof fields.description !== 'string' || fields.description.length > 1000)) {
+    return "Description must be at most 1000 characters.";
+  }
+  if (fields.prompts !== undefined) {
+    if (!fields.prompts || typeof fields.prompts !== 'object' || Array.isArray(fields.prompts)) return "prompts must be an object.";
+    for (const [key, value] of Object.entries(fields.prompts)) {
+      if (!PROMPT_FIELDS.includes(key as keyof ProjectPrompts)) return `Unknown project prompt: ${key}`;
+      if (typeof value !== 'string') return `${key} must be text.`;
+    }
+  }
+  return null;
+};
+
+// Folder name from the project name: lowercase ASCII letters, digits and dashes, unique among projects.
+// Names without any of those (e.g. only Chinese characters) fall back to the project id.
+const folderFor = (name: string, id: string, taken: string[]): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substr(0, 40) || id;
+  let folder = base;
+  for (let i = 2; taken.includes(folder); i++) folder = `${base}-${i}`;
+  return folder;
+};
+
+export const createProject = async (fields: ProjectFields, owner?: string): Promise<Project> => {
+  const name = fields.name.trim();
+  if (await DB.getProjectByName(name)) throw new Error(`A project named ${name} already exists.`);
+  const id = `proj-${uuidv4().substr(0, 8)}`;
+  const project: Project = {
+    id,
+    name,
+    sku: fields.sku?.trim() || undefined,
+    description: fields.description || undefined,
+    folder: folderFor(name, id, (await DB.getProjects()).map(p => p.folder)),
+    prompts: fields.prompts,
+    createdAt: new Date().toLocaleString(),
+    owner,
+  };
+  await DB.addProject(project);
+  return project;
+};
+
+// The folder stays as it was created, so existing output URLs keep working after a rename
+export const updateProject = async (project: Project, fields: Partial<ProjectFields>): Promise<Project | null> => {
+  const updates: Partial<Project> = {};
+  if (fields.name !== undefined) {
+    const name = fields.name.trim();
+    const existing = await DB.getProjectByName(name);
+    if (existing && existing.id !== project.id) throw new Error(`A project named ${name} already exists.`);
+    updates.name = name;
+  }
+  if (fields.sku !== undefined) updates.sku = fields.sku.trim() || undefined;
+  if (fields.description !== undefined) updates.description = fields.description || undefined;
+  if (fields.prompts !== undefined) updates.prompts = fields.prompts;
+  return DB.updateProject(project.id, updates);
+};
+
+// Returns an error message, or null if the project exists (or none was given)
+export const checkProject = async (projectId: string | undefined): Promise<string | null> => {
+  if (projectId === undefined) return null;
+  if (typeof projectId !== 'string' || !await DB.getProject(projectId)) return `Unknown project: ${projectId}`;
+  return null;
+};
+
+// Settings with the project's non-empty prompt overrides applied
+export const withProjectPrompts = (settings: AppSettings, project: Project | null): AppSettings => {
+  if (!project?.prompts) return settings;
+  const overrides = Object.fromEntries(Object.entries(project.prompts).filter(([, value]) => !!value));
+  return { ...settings, ...overrides };
+};
+
+// Outputs of a project go to its own subfolder of the working directory
+export const projectOutputDir = (settings: AppSettings, project: Project | null): string =>
+  project ? path.join(settings.workingDirectory, project.folder) : settings.workingDirectory;
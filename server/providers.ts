@@ -0,0 +1,225 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import * as fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AppSettings } from './types';
+import { DB } from './db';
+import { abortable } from './utils';
+
+// Per-task context handed to every provider call
+export interface ProviderContext {
+  settings: AppSettings;
+  taskId: string; // Local task ID, for logging
+  signal: AbortSignal;
+}
+
+export type PollStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface PollResult {
+  status: PollStatus;
+  rawStatus?: string; // Provider's own status string, for logs
+  resultUrls?: string[]; // Set when succeeded
+  error?: string; // Set when failed
+  cost?: number; // Charge for the job, when the provider reports one with the final status
+}
+
+// An image-generation backend. The engine owns retries, polling cadence and cancellation;
+// a provider only knows how to talk to its API once per call.
+export interface ImageProvider {
+  name: string;
+  // False when the provider reads input files itself, so they do not need public URLs
+  needsHostedInputs: boolean;
+  validate(settings: AppSettings): string | null;
+  // Submits the payload and returns the remote task ID
+  submit(payload: any, ctx: ProviderContext): Promise<string>;
+  // Checks the remote task once. Transient errors should come back as 'pending'.
+  poll(remoteId: string, ctx: ProviderContext): Promise<PollResult>;
+  // Saves one result into saveDir and returns the absolute file path
+  fetchResult(url: string, saveDir: string, ctx: ProviderContext): Promise<string>;
+}
+
+// Streams a remote file to disk, removing the partial file if the task is cancelled
+const downloadToFile = async (url: string, filePath: string, signal: AbortSignal): Promise<void> => {
+  const response = await axios({
+    url,
+    method: 'GET',
+    responseType: 'stream',
+    timeout: 30000,
+    signal
+  });
+
+  const writer = fs.createWriteStream(filePath);
+  response.data.pipe(writer);
+
+  try {
+    await abortable(new Promise<void>((resolve, reject) => {
+      writer.on('finish', () => resolve());
+      writer.on('error', reject);
+    }), signal);
+  } catch (e) {
+    response.data.destroy();
+    writer.destroy();
+    if (signal.aborted) await fs.remove(filePath).catch(() => {});
+    throw e;
+  }
+};
+
+// --- GeekAI ---
+
+const GEEKAI_API_URL = "https://geekai.co/api/v1/images/generations";
+
+// Only some models report what a job was billed; the others keep the price-table estimate
+const readCost = (data: any): number | undefined => {
+  const cost = data.cost ?? data.usage?.cost;
+  return typeof cost === 'number' ? cost : undefined;
+};
+
+export class GeekAIProvider implements ImageProvider {
+  name = 'geekai';
+  needsHostedInputs = true;
+
+  validate(settings: AppSettings): string | null {
+    if (!settings.geekaiApiKey) return "GeekAI API Key is missing. Please check Settings.";
+    return null;
+  }
+
+  async submit(payload: any, ctx: ProviderContext): Promise<string> {
+    const res = await axios.post(GEEKAI_API_URL, payload, {
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${ctx.settings.geekaiApiKey}`
+        },
+        timeout: 600000, // 600s timeout
+        signal: ctx.signal
+    });
+
+    await DB.addTaskLog(ctx.taskId, `API Response Status: ${res.status}`);
+
+    if (res.status === 200 && res.data.task_id) {
+        return res.data.task_id;
+    }
+    throw new Error(`API returned ${res.status}: ${JSON.stringify(res.data)}`);
+  }
+
+  async poll(remoteId: string, ctx: ProviderContext): Promise<PollResult> {
+    const url = `https://geekai.co/api/v1/images/${remoteId}`;
+    try {
+        const res = await axios.get(url, {
+            headers: { 'Authorization': `Bearer ${ctx.settings.geekaiApiKey}` },
+            timeout: 30000,
+            signal: ctx.signal
+        });
+
+        const status = res.data.task_status;
+        if (status === 'succeed') {
+            return { status: 'succeeded', rawStatus: status, resultUrls: res.data.data.map((d: any) => d.url), cost: readCost(res.data) };
+        } else if (status === 'failed') {
+            return { status: 'failed', rawStatus: status, error: res.data.error?.message || "Task failed remotely", cost: readCost(res.data) };
+        }
+        // pending or running
+        return { status: 'pending', rawStatus: status };
+    } catch (e: any) {
+        if (ctx.signal.aborted) throw e;
+        // Check if it is a fatal error or network glitch
+        if (e.response && e.response.status >= 400 && e.response.status < 500) {
+            const errMsg = e.response.data?.message || "API Error";
+            await DB.addTaskLog(ctx.taskId, `Polling Fatal Error: ${errMsg}`);
+            throw new Error(errMsg);
+        }
+        // Network glitch, continue polling
+        console.warn("Polling glitch, retrying...", e.message);
+        return { status: 'pending', rawStatus: 'network-error' };
+    }
+  }
+
+  async fetchResult(url: string, saveDir: string, ctx: ProviderContext): Promise<string> {
+    await fs.ensureDir(saveDir);
+    // Short random part keeps parallel downloads of same-named results apart
+    const fileName = `gen_${Date.now()}_${uuidv4().substr(0, 4)}_${path.basename(url.split('?')[0])}`;
+    // Resolve absolute path
+    const filePath = path.resolve(saveDir, fileName);
+    await downloadToFile(url, filePath, ctx.signal);
+    return filePath;
+  }
+}
+
+// --- Mock ---
+
+interface MockJob {
+  createdAt: number;
+  seed: string;
+  willFail: boolean;
+  count: number; // Images requested through "n"
+}
+
+// Offline provider for development. Results are SVG placeholders derived from a hash of
+// the payload, so the same request always produces the same image.
+export class MockProvider implements ImageProvider {
+  name = 'mock';
+  needsHostedInputs = false;
+  private jobs: Map<string, MockJob> = new Map();
+
+  validate(settings: AppSettings): string | null {
+    return null;
+  }
+
+  async submit(payload: any, ctx: ProviderContext): Promise<string> {
+    const seed = crypto.createHash('sha1').update(JSON.stringify(payload)).digest('hex');
+    const remoteId = `mock-${seed.substr(0, 12)}-${uuidv4().substr(0, 4)}`;
+    const failureRate = ctx.settings.mockFailureRate || 0;
+    this.jobs.set(remoteId, { createdAt: Date.now(), seed, willFail: Math.random() < failureRate, count: payload.n || 1 });
+    await DB.addTaskLog(ctx.taskId, `Mock provider accepted job (delay ${ctx.settings.mockDelayMs || 0}ms, failure rate ${failureRate}).`);
+    return remoteId;
+  }
+
+  async poll(remoteId: string, ctx: ProviderContext): Promise<PollResult> {
+    const job = this.jobs.get(remoteId);
+    // Unknown job (e.g. server restarted): treat it as finished
+    if (!job) return { status: 'succeeded', rawStatus: 'succeed', resultUrls: [`mock://${remoteId}/0`] };
+
+    if (Date.now() - job.createdAt < (ctx.settings.mockDelayMs || 0)) {
+      return { status: 'pending', rawStatus: 'running' };
+    }
+    this.jobs.delete(remoteId);
+    if (job.willFail) return { status: 'failed', rawStatus: 'failed', error: "Mock provider simulated failure" };
+    return { status: 'succeeded', rawStatus: 'succeed', resultUrls: Array.from({ length: job.count }, (_, i) => `mock://${remoteId}/${i}`) };
+  }
+
+  async fetchResult(url: string, saveDir: string, ctx: ProviderContext): Promise<string> {
+    await fs.ensureDir(saveDir);
+    const [remoteId, index] = url.replace('mock://', '').split('/');
+    const seed = crypto.createHash('sha1').update(`${remoteId.split('-')[1]}:${index}`).digest('hex');
+    const hue = parseInt(seed.substr(0, 4), 16) % 360;
+    const svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">`,
+      `<rect width="1024" height="1024" fill="hsl(${hue}, 60%, 85%)"/>`,
+      `<circle cx="512" cy="440" r="220" fill="hsl(${(hue + 120) % 360}, 55%, 60%)"/>`,
+      `<text x="512" y="800" font-family="monospace" font-size="40" text-anchor="middle" fill="#334155">MOCK ${seed.substr(0, 8)}</text>`,
+      `</svg>`
+    ].join('');
+    const filePath = path.resolve(saveDir, `gen_${Date.now()}_${remoteId}_${index}.svg`);
+    await fs.writeFile(filePath, svg, 'utf8');
+    return filePath;
+  }
+}
+
+// --- Registry ---
+
+const PROVIDERS: Record<string, ImageProvider> = {
+  geekai: new GeekAIProvider(),
+  mock: new MockProvider(),
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+// Models default to GeekAI unless settings map them to another provider
+export const getProviderForModel = (model: string, settings: AppSettings): ImageProvider => {
+  return getProvider(settings.modelProviders?.[model] || 'geekai');
+};
+
+export const getProvider = (name: string): ImageProvider => {
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown provider: ${name}`);
+  return provider;
+};
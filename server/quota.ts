@@ -0,0 +1,47 @@
+import { DB } from './db';
+import { AppSettings, QuotaRule, QuotaStatus } from './types';
+
+// Start of the current calendar day or month, and of the next one, in server time
+export const periodBounds = (period: QuotaRule['period'], now = new Date()): { start: Date; end: Date } => {
+  if (period === 'month') {
+    return { start: new Date(now.getFullYear(), now.getMonth(), 1), end: new Date(now.getFullYear(), now.getMonth() + 1, 1) };
+  }
+  return { start: new Date(now.getFullYear(), now.getMonth(), now.getDate()), end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) };
+};
+
+// Returns an error message, or null if every rule is usable
+export const checkQuotaRules = (rules: QuotaRule[] | undefined): string | null => {
+  if (rules === undefined) return null;
+  if (!Array.isArray(rules)) return "quotas must be a list.";
+  for (const rule of rules) {
+    if (rule.period !== 'day' && rule.period !== 'month') return `Unknown quota period: ${rule.period}`;
+    if (!Number.isInteger(rule.limit) || rule.limit < 0) return "Quota limit must be a whole number of tasks, 0 or more.";
+  }
+  return null;
+};
+
+const appliesTo = (rule: QuotaRule, owner: string) => !rule.user || rule.user.toLowerCase() === owner.toLowerCase();
+
+// Every rule that applies to the user, with what is left of it
+export const getQuotaStatus = async (owner: string, settings: AppSettings): Promise<QuotaStatus[]> => {
+  const rules = (settings.quotas || []).filter(rule => appliesTo(rule, owner));
+  return Promise.all(rules.map(async (rule) => {
+    const { start, end } = periodBounds(rule.period);
+    const used = await DB.countTasks(owner, start.getTime(), rule.model);
+    return { ...rule, used, remaining: Math.max(0, rule.limit - used), resetsAt: end.toISOString() };
+  }));
+};
+
+// Checks that the user may submit one task per entry of `models`. Returns an error message, or null.
+export const checkQuota = async (owner: string | undefined, models: string[], settings: AppSettings): Promise<string | null> => {
+  if (!owner) return null;
+  for (const status of await getQuotaStatus(owner, settings)) {
+    const requested = status.model ? models.filter(m => m === status.model).length : models.length;
+    if (requested > status.remaining) {
+      const scope = status.model ? `${status.model} ` : '';
+      const period = status.period === 'day' ? 'today' : 'this month';
+      return `Quota exceeded: ${status.remaining} of ${status.limit} ${scope}task(s) left ${period}, ${requested} requested.`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import * as fs from 'fs-extra';
+import path from 'path';
+import { AppSettings, SECRET_SETTINGS } from './types';
+
+// Fix for missing Node types
+declare var __dirname: string;
+declare var process: any;
+
+// Any string; hashed to the AES key. Without it a random key is kept in KEY_FILE.
+const KEY_ENV = 'DOLL_WORKFLOW_SECRET_KEY';
+// Outside data/, whose inputs folder is served under /files
+const KEY_FILE = path.join(__dirname, 'keys', 'secret.key');
+const LEGACY_KEY_FILE = path.join(__dirname, 'data', 'secret.key');
+const PREFIX = 'enc:v1:';
+
+// Stands in for a stored secret in API responses
+export const SECRET_MASK = '********';
+
+let key: Buffer | null = null;
+
+const getKey = (): Buffer => {
+  if (key) return key;
+  if (process.env[KEY_ENV]) {
+    key = crypto.createHash('sha256').update(process.env[KEY_ENV]).digest();
+    return key;
+  }
+  if (!fs.existsSync(KEY_FILE) && fs.existsSync(LEGACY_KEY_FILE)) {
+    fs.moveSync(LEGACY_KEY_FILE, KEY_FILE);
+    console.log(`Moved ${LEGACY_KEY_FILE} to ${KEY_FILE}`);
+  }
+  if (!fs.existsSync(KEY_FILE)) {
+    fs.ensureDirSync(path.dirname(KEY_FILE));
+    fs.writeFileSync(KEY_FILE, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+    console.log(`Generated ${KEY_FILE}; without it the stored API keys cannot be read. Set ${KEY_ENV} to use your own key.`);
+  }
+  key = Buffer.from(fs.readFileSync(KEY_FILE, 'utf8').trim(), 'hex');
+  return key;
+};
+
+export const isEncrypted = (value: string): boolean => typeof value === 'string' && value.startsWith(PREFIX);
+
+// AES-256-GCM, stored as enc:v1:<iv>:<tag>:<ciphertext> (base64 parts)
+export const encryptSecret = (plain: string): string => {
+  if (!plain || isEncrypted(plain)) return plain;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join(':');
+};
+
+// Plaintext values pass through; throws if the value was encrypted with another key
+export const decryptSecret = (value: string): string => {
+  if (!isEncrypted(value)) return value;
+  const [iv, tag, data] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+};
+
+// Copy of the config that is safe to send to a client: set secrets become SECRET_MASK
+export const redactSecrets = (config: AppSettings): AppSettings => {
+  const redacted = { ...config };
+  for (const field of SECRET_SETTINGS) redacted[field] = config[field] ? SECRET_MASK : '';
+  return redacted;
+};
+
+// Write-only update path: a blank or masked secret keeps the stored value
+export const keepStoredSecrets = (incoming: AppSettings, stored: AppSettings): AppSettings => {
+  const merged = { ...incoming };
+  for (const field of SECRET_SETTINGS) {
+    const value = incoming[field];
+    if (!value || value === SECRET_MASK) merged[field] = stored[field];
+  }
+  return merged;
+};
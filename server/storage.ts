@@ -0,0 +1,179 @@
+import OSS from 'ali-oss';
+import * as fs from 'fs-extra';
+import path from 'path';
+import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { AppSettings, ImageItem } from './types';
+import { ProviderContext } from './providers';
+import { abortable } from './utils';
+import { signFilePath } from './auth';
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+};
+
+const mimeTypeOf = (filePath: string) => MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+
+export interface HostedFile {
+  url: string; // What goes into the payload
+  existed?: boolean; // The object was already stored, so nothing was uploaded
+}
+
+// Where input images go so the provider can read them. The engine owns retries;
+// a backend hosts one file per call and returns the URL to put in the payload.
+export interface StorageBackend {
+  name: string;
+  label: string; // Human-readable name for task logs
+  // Set on content-addressed backends: the engine remembers their links and reuses them
+  cache?: {
+    ttlMs: number;
+    key(contentHash: string, settings: AppSettings): string;
+  };
+  validate(settings: AppSettings): string | null;
+  hostFile(img: ImageItem, ctx: ProviderContext, contentHash: string): Promise<HostedFile>;
+}
+
+// --- Aliyun OSS ---
+
+export class OSSStorage implements StorageBackend {
+  name = 'oss';
+  label = 'Aliyun OSS';
+  // Objects are keyed by content hash and never overwritten, so links stay valid until
+  // someone deletes them; the engine re-checks with a HEAD request before reusing one.
+  cache = {
+    ttlMs: 7 * 24 * 3600 * 1000,
+    key: (contentHash: string, settings: AppSettings) => `oss:${settings.ossEndpoint}:${settings.ossBucketName}:${contentHash}`,
+  };
+
+  validate(settings: AppSettings): string | null {
+    if (!settings.ossAccessKeyId || !settings.ossBucketName) return "OSS Configuration incomplete";
+    return null;
+  }
+
+  async hostFile(img: ImageItem, ctx: ProviderContext, contentHash: string): Promise<HostedFile> {
+    const { settings, signal } = ctx;
+    const client = new OSS({
+      region: settings.ossEndpoint.split('.')[0], // simplified parsing, user usually provides full endpoint
+      accessKeyId: settings.ossAccessKeyId,
+      accessKeySecret: settings.ossAccessKeySecret,
+      bucket: settings.ossBucketName,
+      endpoint: settings.ossEndpoint,
+      secure: true,
+    });
+
+    const key = `${settings.ossFolder.replace(/\/$/, '')}/${contentHash}${path.extname(img.local_path).toLowerCase()}`;
+    // Construct URL
+    let ep = settings.ossEndpoint.replace(/^https?:\/\//, '');
+    const url = `https://${settings.ossBucketName}.${ep}/${key}`;
+
+    try {
+      await abortable(client.head(key, { timeout: 10000 }), signal);
+      return { url, existed: true };
+    } catch (e: any) {
+      if (signal.aborted) throw e;
+      // Not found (or no HEAD permission): fall through to a normal upload
+    }
+
+    await abortable(client.put(key, img.local_path, { timeout: 60000 }), signal);
+    return { url };
+  }
+}
+
+// --- S3-compatible (AWS S3, MinIO, ...) ---
+
+export class S3Storage implements StorageBackend {
+  name = 's3';
+  label = 'S3-compatible storage';
+
+  validate(settings: AppSettings): string | null {
+    if (!settings.s3Endpoint || !settings.s3Bucket || !settings.s3AccessKeyId || !settings.s3SecretAccessKey) {
+      return "S3 Configuration incomplete";
+    }
+    return null;
+  }
+
+  async hostFile(img: ImageItem, ctx: ProviderContext, contentHash: string): Promise<HostedFile> {
+    const { settings, signal } = ctx;
+    const client = new S3Client({
+      endpoint: settings.s3Endpoint,
+      region: settings.s3Region || 'us-east-1',
+      credentials: {
+        accessKeyId: settings.s3AccessKeyId,
+        secretAccessKey: settings.s3SecretAccessKey,
+      },
+      // MinIO and most self-hosted stores only support path-style addressing
+      forcePathStyle: true,
+    });
+
+    const folder = (settings.s3Folder || '').replace(/\/$/, '');
+    const key = `${folder ? folder + '/' : ''}${path.basename(img.local_path)}`;
+    await client.send(new PutObjectCommand({
+      Bucket: settings.s3Bucket,
+      Key: key,
+      Body: await fs.readFile(img.local_path),
+      ContentType: mimeTypeOf(img.local_path),
+    }), { abortSignal: signal });
+
+    // Presigned, so the bucket can stay private
+    const url = await getSignedUrl(client, new GetObjectCommand({ Bucket: settings.s3Bucket, Key: key }), { expiresIn: 6 * 3600 });
+    return { url };
+  }
+}
+
+// --- Served by this server ---
+
+export class PublicUrlStorage implements StorageBackend {
+  name = 'public-url';
+  label = 'this server (public base URL)';
+
+  validate(settings: AppSettings): string | null {
+    if (!settings.publicBaseUrl) return "Public base URL is not set";
+    return null;
+  }
+
+  async hostFile(img: ImageItem, ctx: ProviderContext, contentHash: string): Promise<HostedFile> {
+    const base = ctx.settings.publicBaseUrl.replace(/\/$/, '');
+    // The image's own /files link (inputs, outputs and project outputs each have their own route).
+    // /files needs a session, so the provider gets a signed link that expires.
+    if (!img.url?.startsWith('/files/')) throw new Error(`${img.name} has no link on this server`);
+    const filePath = img.url.split('/').map(encodeURIComponent).join('/');
+    return { url: `${base}${signFilePath(filePath)}` };
+  }
+}
+
+// --- Inline data URI ---
+
+export class InlineStorage implements StorageBackend {
+  name = 'inline';
+  label = 'inline base64';
+
+  validate(settings: AppSettings): string | null {
+    return null;
+  }
+
+  async hostFile(img: ImageItem, ctx: ProviderContext, contentHash: string): Promise<HostedFile> {
+    const data = await fs.readFile(img.local_path);
+    return { url: `data:${mimeTypeOf(img.local_path)};base64,${data.toString('base64')}` };
+  }
+}
+
+// --- Registry ---
+
+const BACKENDS: Record<string, StorageBackend> = {
+  oss: new OSSStorage(),
+  s3: new S3Storage(),
+  'public-url': new PublicUrlStorage(),
+  inline: new InlineStorage(),
+};
+
+export const getStorageBackend = (settings: AppSettings): StorageBackend => {
+  const name = settings.storageBackend || 'oss';
+  const backend = BACKENDS[name];
+  if (!backend) throw new Error(`Unknown storage backend: ${name}`);
+  return backend;
+};
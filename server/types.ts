@@ -5,6 +5,23 @@ export enum WorkflowStage {
   DOLL_REPLACEMENT = "doll_replacement",
 }
 
+// Input slots per stage, in the order the prompt refers to them (图1, 图2, 图3)
+export const STAGE_SLOTS: Record<WorkflowStage, { category: string; label: string }[]> = {
+  [WorkflowStage.HAIRSTYLE_EXTRACTION]: [
+    { category: 'hair-ref', label: 'Reference' },
+    { category: 'hair-mannequin', label: 'Mannequin' },
+  ],
+  [WorkflowStage.DOLL_ASSEMBLY]: [
+    { category: 'asm-hair', label: 'Hair' },
+    { category: 'asm-body', label: 'Body' },
+    { category: 'asm-cloth', label: 'Cloth' },
+  ],
+  [WorkflowStage.DOLL_REPLACEMENT]: [
+    { category: 'rep-ref', label: 'Reference' },
+    { category: 'rep-prod', label: 'Product' },
+  ],
+};
+
 export interface AppSettings {
   geekaiApiKey: string;
   concurrency: number;
@@ -15,12 +32,124 @@ export interface AppSettings {
   ossEndpoint: string;
   ossBucketName: string;
   ossFolder: string;
+  // Input hosting backend: 'oss' | 's3' | 'public-url' | 'inline'
+  storageBackend: string;
+  // S3-compatible Config (AWS S3, MinIO, ...)
+  s3Endpoint: string;
+  s3Region: string;
+  s3AccessKeyId: string;
+  s3SecretAccessKey: string;
+  s3Bucket: string;
+  s3Folder: string;
+  // Externally reachable URL of this server, for the 'public-url' backend
+  publicBaseUrl: string;
   // Prompt Configurations
   promptHairstyle: string;
   promptAssembly: string;
   promptReplacement: string;
+  // Image-generation provider per model name; unlisted models use 'geekai'
+  modelProviders: Record<string, string>;
+  // Mock provider behaviour, for offline development
+  mockDelayMs: number;
+  mockFailureRate: number; // 0..1
+  // Per-model overrides of DEFAULT_RETRY_POLICY
+  retryPolicies: Record<string, Partial<RetryPolicy>>;
+  // Generation limits, checked when tasks are submitted
+  quotas: QuotaRule[];
+  // Cost accounting: price table, the unit its amounts are in, and an optional spending ceiling
+  prices: PriceRule[];
+  currency: string; // Display label only, e.g. "¥" or "credits"
+  budget: BudgetRule | null;
+}
+
+// Write-only settings: stored encrypted, masked in GET /api/config
+export const SECRET_SETTINGS = ['geekaiApiKey', 'ossAccessKeySecret', 's3SecretAccessKey'] as const;
+export type SecretSetting = typeof SECRET_SETTINGS[number];
+
+// At most `limit` tasks per user per calendar day or month (server time). Without `user` the rule
+// applies to every user separately; without `model` it counts tasks of all models.
+// Failed and cancelled tasks do not count.
+export interface QuotaRule {
+  period: 'day' | 'month';
+  limit: number;
+  user?: string; // Username
+  model?: string;
+}
+
+// A rule that applies to the caller, with its usage in the current period
+export interface QuotaStatus extends QuotaRule {
+  used: number;
+  remaining: number;
+  resetsAt: string; // ISO time the period ends
+}
+
+// Price of one generated image. A rule with a size wins over the model's rule without one.
+export interface PriceRule {
+  model: string;
+  size?: string;
+  price: number;
+}
+
+// Total spend of all users per calendar day or month (server time). Once a new task would take
+// the spend over `limit`, submissions are refused until the period ends.
+export interface BudgetRule {
+  period: 'day' | 'month';
+  limit: number;
 }
 
+export interface BudgetStatus extends BudgetRule {
+  spent: number;
+  remaining: number;
+  resetsAt: string; // ISO time the period ends
+}
+
+// Spend of the tasks in one group of a usage summary
+export interface UsageRow {
+  key: string; // Day (YYYY-MM-DD), model, stage or username
+  tasks: number;
+  cost: number;
+}
+
+// GET /api/usage. A task costs its actualCost if the provider reported one, otherwise its
+// estimatedCost; failed and cancelled tasks only count when the provider reported a cost.
+export interface UsageSummary {
+  from: string; // ISO
+  to: string; // ISO
+  currency: string;
+  total: number;
+  tasks: number;
+  byDay: UsageRow[];
+  byModel: UsageRow[];
+  byStage: UsageRow[];
+  byUser: UsageRow[];
+  budget: BudgetStatus | null;
+}
+
+// How long and how often the engine talks to a provider for one task. Durations in ms.
+export interface RetryPolicy {
+  maxPollDurationMs: number; // Fail the task if the remote job is not done by then
+  pollIntervalMs: number; // Wait before the first poll
+  pollBackoff: number; // Each wait is the previous one times this (1 = fixed interval)
+  maxPollIntervalMs: number; // Cap on the backed-off wait
+  submitAttempts: number;
+  submitRetryDelayMs: number;
+  downloadAttempts: number;
+  downloadRetryDelayMs: number;
+  downloadTimeoutMs: number; // Per attempt, including the body transfer
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxPollDurationMs: 20 * 60 * 1000,
+  pollIntervalMs: 3000,
+  pollBackoff: 1.2,
+  maxPollIntervalMs: 15000,
+  submitAttempts: 3,
+  submitRetryDelayMs: 10000,
+  downloadAttempts: 5,
+  downloadRetryDelayMs: 3000,
+  downloadTimeoutMs: 120000,
+};
+
 export interface ImageItem {
   id: string;
   url: string;
@@ -28,21 +157,42 @@ export interface ImageItem {
   name: string;
   category?: string;
   selected?: boolean;
+  variation?: number; // Index among the images one task returned
+  owner?: string; // Username of the account that uploaded it
+  projectId?: string; // Absent for images outside any project
+  tags?: string[]; // Searchable, like the name
+  notes?: string;
 }
 
+// Metadata PATCH /api/images/:id may change; category moves the image to another input slot
+export type ImageUpdate = Partial<Pick<ImageItem, 'name' | 'category' | 'tags' | 'notes'>>;
+
 export interface TaskItem {
   id: string;
   type: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   model: string;
+  provider?: string; // Provider the task was submitted to
   inputImages: ImageItem[];
   outputImages: ImageItem[];
   startTime: string;
   endTime?: string;
   duration?: string;
   geekai_task_id?: string;
+  resultCacheKey?: string; // Computed before the remote job is submitted; its result is cached under it
   error_message?: string;
   logs?: string[]; // Detailed logs
+  params?: TaskParams; // Request parameters, kept for retry / remix
+  parentTaskId?: string; // Set when this task is a retry or remix of another one
+  batchId?: string; // Set when this task was expanded from a batch request
+  pipelineId?: string; // Set when this task is one step of a pipeline run
+  idempotencyKey?: string; // Key of the request that created this task
+  duplicateOf?: string; // An identical request was still pending or running when this one was submitted
+  cachedFrom?: string; // Outputs were copied from this earlier task instead of calling the provider
+  owner?: string; // Username of the account that submitted it
+  estimatedCost?: number; // From the price table at submission; absent when no price applies
+  actualCost?: number; // As reported by the provider; 0 when the result cache answered
+  projectId?: string; // Outputs are saved in this project's folder
 }
 
 export interface GenerateRequest {
@@ -51,12 +201,212 @@ export interface GenerateRequest {
   size: string;
   aspect_ratio: string;
   input_images: ImageItem[];
-  // The frontend sends the full settings object to ensure backend uses latest config
-  settings: AppSettings;
+  // Optional per-request prompt, overrides the stage prompt from settings
+  prompt?: string;
+  // Optional model parameters such as seed or steps; only those in the adapter's extraParams are accepted
+  extras?: Record<string, number | string>;
+  // Number of images to request from one call, default 1 (limited by the adapter's variations.max)
+  variations?: number;
+  // Client-generated per click; repeating it within the idempotency window returns the original task (or batch)
+  idempotencyKey?: string;
+  // Skip the result cache and always call the provider
+  forceRegenerate?: boolean;
+  // Project the task belongs to; its prompt overrides and output folder apply
+  projectId?: string;
+}
+
+// Dry-run result of POST /api/generate/preview
+export interface PreviewResult {
+  provider: string;
+  prompt: string; // Final prompt as sent, including any ratio or suffix the adapter adds
+  inputs: { role: string; slot: string; name: string; url: string }[]; // In payload order, role is 图1, 图2, ...
+  payload: any;
+}
+
+// Everything needed to re-run a task. Settings are left out so secrets never end up in tasks.json
+export type TaskParams = Omit<GenerateRequest, 'idempotencyKey'>;
+
+// Fields a remix is allowed to change before resubmitting
+export interface RemixOverrides {
+  model?: string;
+  size?: string;
+  aspect_ratio?: string;
+  prompt?: string;
+}
+
+// How multi-image selections expand: every combination, or pairwise by position
+export const BATCH_MODES = ['matrix', 'zip'] as const;
+export type BatchMode = typeof BATCH_MODES[number];
+
+export interface BatchRequest extends GenerateRequest {
+  mode: BatchMode;
+}
+
+// Groups the child tasks of one batch submission
+export interface BatchItem {
+  id: string;
+  stage: WorkflowStage;
+  model: string;
+  mode: BatchMode;
+  taskIds: string[];
+  createdAt: string;
+  idempotencyKey?: string;
+  owner?: string;
+  projectId?: string;
+}
+
+// --- Pipelines ---
+
+// One stage of a pipeline. `outputTo` names the input slot (category) of the NEXT step
+// that receives this step's output, e.g. hairstyle -> 'asm-hair', assembly -> 'rep-prod'.
+export interface PipelineStepRequest {
+  stage: WorkflowStage;
+  model: string;
+  size: string;
+  aspect_ratio: string;
+  prompt?: string;
+  outputTo?: string;
+}
+
+export interface PipelineRequest {
+  name?: string;
+  steps: PipelineStepRequest[];
+  // Fixed inputs for every slot that is not fed by a previous step
+  input_images: ImageItem[];
+  projectId?: string;
+}
+
+export type PipelineStepStatus = 'waiting' | 'skipped' | TaskItem['status'];
+
+export interface PipelineStep extends PipelineStepRequest {
+  status: PipelineStepStatus;
+  taskId?: string;
+}
+
+export interface PipelineRun {
+  id: string;
+  name: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  steps: PipelineStep[];
+  input_images: ImageItem[];
+  createdAt: string;
+  endTime?: string;
+  owner?: string; // Later steps are submitted on behalf of this account
+  projectId?: string; // Every step runs in this project
+}
+
+// --- Projects ---
+
+// Stage prompts a project replaces; empty or missing ones fall back to the settings
+export type ProjectPrompts = Partial<Pick<AppSettings, 'promptHairstyle' | 'promptAssembly' | 'promptReplacement'>>;
+
+// Workspace for one doll SKU: groups its uploads, tasks and outputs
+export interface Project {
+  id: string;
+  name: string; // Unique, case-insensitive
+  sku?: string;
+  description?: string;
+  folder: string; // Output subfolder of workingDirectory, fixed when the project is created
+  prompts?: ProjectPrompts;
+  createdAt: string;
+  owner?: string;
+}
+
+// --- Listing ---
+
+// Shared parameters of GET /api/tasks and GET /api/images
+export interface ListQuery {
+  q?: string; // Case-insensitive text search (names, ids)
+  from?: number; // Created at or after, epoch ms
+  to?: number; // Created before, epoch ms
+  sort?: 'newest' | 'oldest';
+  limit?: number;
+  offset?: number;
+  cursor?: string; // nextCursor of the previous page; replaces offset
+  projectId?: string | null; // Only records of this project; null for those outside any project
+}
+
+export interface TaskQuery extends ListQuery {
+  status?: TaskItem['status'][];
+  stage?: WorkflowStage;
+  model?: string;
+}
+
+export interface ImageQuery extends ListQuery {
+  category?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number; // Matches across all pages
+  nextCursor?: string; // Absent on the last page
+}
+
+// --- Accounts ---
+
+// admin: settings, prompts and accounts; operator: generates and deletes own uploads; viewer: read-only
+export const ROLES = ['admin', 'operator', 'viewer'] as const;
+export type Role = typeof ROLES[number];
+
+// Local account. The password hash stays in the users table and is never part of this object.
+export interface UserAccount {
+  id: string;
+  username: string;
+  role: Role;
+  createdAt: string;
+}
+
+// Personal token for scripts, sent as "Authorization: Bearer <token>". Only its hash is stored.
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // Start of the token, to tell tokens apart in the list
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// GET /api/auth/session
+export interface AuthSession {
+  user: UserAccount | null;
+  setupRequired: boolean; // No account exists yet; the first sign-up creates it
+}
+
+// Remembered link for a content-addressed upload
+export interface UploadCacheEntry {
+  url: string;
+  expiresAt: number; // epoch ms
+}
+
+// Outputs of a completed task, keyed by the content address of its request
+export interface ResultCacheEntry {
+  taskId: string;
+  outputs: { local_path: string; variation: number }[];
+}
+
+// How a generation request is turned into the provider payload for one model
+export interface PayloadAdapter {
+  imageField?: string; // Key of the input image list, default "image"
+  size?: 'param' | 'omit'; // Send size as the "size" field (default) or leave it out
+  // Sizes sent as exact pixels, keyed by size then aspect ratio. With "Auto" the plain size is sent.
+  pixelSizes?: Record<string, Record<string, string>>;
+  // How a non-Auto aspect ratio is sent: "aspect_ratio" field, appended to the prompt, or dropped (default).
+  // Ignored when the size was already mapped to pixels.
+  ratio?: 'param' | 'prompt' | 'omit';
+  ratioPromptTemplate?: string; // For ratio "prompt"; {ratio} is replaced, default " --ratio {ratio}"
+  promptSuffix?: string; // Appended to every prompt
+  extras?: Record<string, number | string>; // Fixed extra fields
+  extraParams?: string[]; // Fields a request may set through GenerateRequest.extras
+  variations?: { field: string; max: number }; // Field that asks for several images per call (e.g. "n")
+}
+
+// One entry of models.json
+export interface ModelConfig {
+  id: string;
+  sizes: string[];
+  aspectRatios: string[];
+  defaultSize: string;
+  defaultAspectRatio: string;
+  payload?: PayloadAdapter;
 }
 
-export const PIXEL_MAP_2K: Record<string, string> = {
-  "1:1": "2048x2048", "4:3": "2304x1728", "3:4": "1728x2304",
-  "16:9": "2560x1440", "9:16": "1440x2560", "3:2": "2496x1664",
-  "2:3": "1664x2496", "21:9": "3024x1296"
-};
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { TaskParams } from './types';
+
+// Wait that rejects early when the task gets cancelled
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Task cancelled"));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Task cancelled"));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Races an operation that has no native abort support (e.g. OSS put) against cancellation
+export const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) return Promise.reject(new Error("Task cancelled"));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error("Task cancelled"));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      (err) => { signal.removeEventListener('abort', onAbort); reject(err); }
+    );
+  });
+};
+
+// Child signal that aborts with the parent or after ms, whichever comes first.
+// Call clear() once the guarded operation is over.
+export const withTimeout = (signal: AbortSignal, ms: number) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), ms);
+  if (signal.aborted) controller.abort();
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+// Creation time (epoch ms) of a generated ID such as task-<ms>-ab12, batch-<ms>-ab12 or <ms>-123;
+// 0 if it has none. Unlike the toLocaleString() fields it parses the same under every locale.
+export const idTimestamp = (id: string): number => {
+  const match = /^(?:[a-z]+-)?(\d{12,})(?:-|$)/.exec(id);
+  return match ? Number(match[1]) : 0;
+};
+
+// Identity of a request for duplicate detection: same project, inputs in slot order, prompt override
+// and model settings. Stored with each task, so duplicates are found by an indexed lookup.
+export const requestFingerprint = (p: TaskParams): string => crypto.createHash('sha256').update(JSON.stringify([
+  p.stage, p.model, p.size, p.aspect_ratio, p.prompt || '', p.variations || 1, p.extras || {}, p.input_images.map(i => i.id), p.projectId || ''
+])).digest('hex');
+
+// SHA-256 of a file's contents, hex encoded
+export const hashFile = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+};
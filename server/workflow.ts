@@ -1,20 +1,93 @@
 import axios from 'axios';
-import OSS from 'ali-oss';
 import * as fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { GenerateRequest, WorkflowStage, TaskItem, ImageItem, PIXEL_MAP_2K, AppSettings } from './types';
+import { GenerateRequest, WorkflowStage, TaskItem, ImageItem, AppSettings, RemixOverrides, STAGE_SLOTS, BatchRequest, BatchItem, PipelineRequest, PipelineRun, PipelineStep, PipelineStepRequest, RetryPolicy, DEFAULT_RETRY_POLICY, PreviewResult, ResultCacheEntry, Project } from './types';
 import { DB } from './db';
+import { ImageProvider, ProviderContext, getProvider, getProviderForModel } from './providers';
+import { StorageBackend, getStorageBackend } from './storage';
+import { sleep, hashFile, withTimeout, requestFingerprint } from './utils';
+import { getModelConfig } from './catalog';
+import { buildPayload, checkExtras } from './payload';
+import { checkQuota } from './quota';
+import { checkBudget, estimateCost } from './costs';
+import { checkProject, withProjectPrompts, projectOutputDir } from './projects';
 
 // Fix for missing Node types
 declare var process: any;
 
-const GEEKAI_API_URL = "https://geekai.co/api/v1/images/generations";
+// Upper bound on tasks created by one batch, so a stray "select all" cannot burn the budget
+const MAX_BATCH_TASKS = 100;
+
+// How long a repeated idempotency key returns the original task instead of creating a new one
+const IDEMPOTENCY_WINDOW_MS = 10 * 60 * 1000;
+
+// Keys are per account: the same key from another user is a different request
+const scopedKey = (key: string | undefined, owner: string | undefined) => key && `${owner || ''}:${key}`;
+
+// Model overrides on top of the defaults, with attempt counts kept at 1 or more
+const getRetryPolicy = (model: string, settings: AppSettings): RetryPolicy => {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...settings.retryPolicies?.[model] };
+  policy.submitAttempts = Math.max(1, Math.floor(policy.submitAttempts));
+  policy.downloadAttempts = Math.max(1, Math.floor(policy.downloadAttempts));
+  policy.pollBackoff = Math.max(1, policy.pollBackoff);
+  return policy;
+};
+
+// A task waiting for a slot. Tasks resumed after a restart that already reached the provider
+// carry the remote job, the provider it was submitted to and its result cache key, and go straight to polling.
+type QueuedTask = { taskId: string; req: GenerateRequest; remoteTaskId?: string; provider?: string; resultCacheKey?: string };
+
+// Where a task comes from: the account that asked for it and the run it belongs to
+type TaskOrigin = { owner?: string; parentTaskId?: string; batchId?: string; pipelineId?: string };
+
+const formatDuration = (ms: number) => ms >= 60000 ? `${+(ms / 60000).toFixed(1)} min` : `${+(ms / 1000).toFixed(1)}s`;
+
+// Returns the input image list of every task in the batch, or an error message
+const expandBatch = (req: BatchRequest): ImageItem[][] | string => {
+  const slots = STAGE_SLOTS[req.stage];
+  if (!slots) return `Unknown stage: ${req.stage}`;
+  const grouped = slots.map(slot => req.input_images.filter(i => i.category === slot.category));
+
+  const empty = slots.filter((slot, i) => grouped[i].length === 0);
+  if (empty.length > 0) {
+    return `Rules: Select at least 1 ${empty.map(slot => slot.label).join(', ')} image.`;
+  }
+
+  // Counted before anything is built, so an oversized selection costs no memory
+  const zipLength = Math.max(...grouped.map(g => g.length));
+  if (req.mode === 'zip' && grouped.some(g => g.length !== 1 && g.length !== zipLength)) {
+    return "Zip mode needs the same number of images in every slot (or exactly 1 to reuse).";
+  }
+  const count = req.mode === 'zip' ? zipLength : grouped.reduce((n, g) => n * g.length, 1);
+  if (count > MAX_BATCH_TASKS) {
+    return `Batch would create ${count} tasks (limit ${MAX_BATCH_TASKS}).`;
+  }
+
+  if (req.mode === 'zip') {
+    // Pair by position; a slot with a single image is reused for every pair
+    return Array.from({ length: zipLength }, (_, i) => grouped.map(g => g.length === 1 ? g[0] : g[i]));
+  }
+  // Cartesian product over all slots
+  return grouped.reduce<ImageItem[][]>(
+    (acc, group) => acc.flatMap(combo => group.map(img => [...combo, img])),
+    [[]]
+  );
+};
+
+// Data URIs can be megabytes long; keep them readable in task logs
+const shortenDataUri = (value: string) => {
+  return value.startsWith('data:') ? `${value.substr(0, 40)}... (${value.length} chars)` : value;
+};
 
 export class WorkflowEngine {
-  private queue: GenerateRequest[] = [];
-  private activeCount: number = 0;
+  private queue: QueuedTask[] = [];
+  // Running tasks keyed by task ID; the size of this map is the number of busy slots
+  private running: Map<string, AbortController> = new Map();
   private maxConcurrency: number = 4;
+  // Submissions in progress, keyed by owner and idempotency key
+  private inFlightKeys: Map<string, Promise<any>> = new Map();
 
   constructor() {
     this.init();
@@ -35,51 +108,115 @@ export class WorkflowEngine {
   }
 
   // --- Validation ---
-  public validateRequest(req: GenerateRequest): string | null {
-    const { settings, model, size, aspect_ratio, input_images } = req;
+  public validateRequest(req: GenerateRequest, settings: AppSettings): string | null {
+    const { model, size, aspect_ratio, input_images } = req;
 
-    if (!settings.geekaiApiKey) return "GeekAI API Key is missing. Please check Settings.";
     if (!model) return "Please select an AI Model.";
+    const modelConfig = getModelConfig(model);
+    if (!modelConfig) return `Unknown model: ${model}`;
+    let provider: ImageProvider;
+    try {
+      provider = getProviderForModel(model, settings);
+    } catch (e: any) {
+      return e.message;
+    }
+    const providerError = provider.validate(settings);
+    if (providerError) return providerError;
+    if (provider.needsHostedInputs) {
+      try {
+        const storageError = getStorageBackend(settings).validate(settings);
+        if (storageError) return storageError;
+      } catch (e: any) {
+        return e.message;
+      }
+    }
     if (!size) return "Please select a Size.";
     if (!aspect_ratio) return "Please select an Aspect Ratio.";
-
-    const imgs = input_images;
-
-    if (req.stage === WorkflowStage.HAIRSTYLE_EXTRACTION) {
-      const ref = imgs.filter(i => i.category === 'hair-ref');
-      const man = imgs.filter(i => i.category === 'hair-mannequin');
-      if (ref.length !== 1 || man.length !== 1) {
-        return "Rules: Select exactly 1 Reference image and 1 Mannequin image.";
-      }
-      // Reorder: Ref first, then Mannequin
-      req.input_images = [...ref, ...man];
-    } 
-    else if (req.stage === WorkflowStage.DOLL_ASSEMBLY) {
-      const hair = imgs.filter(i => i.category === 'asm-hair');
-      const body = imgs.filter(i => i.category === 'asm-body');
-      const cloth = imgs.filter(i => i.category === 'asm-cloth');
-      if (hair.length !== 1 || body.length !== 1 || cloth.length !== 1) {
-        return "Rules: Select exactly 1 Hair, 1 Body, and 1 Cloth image.";
-      }
-      req.input_images = [...hair, ...body, ...cloth];
+    if (!modelConfig.sizes.includes(size)) {
+      return `${model} does not support size ${size} (supported: ${modelConfig.sizes.join(', ')}).`;
     }
-    else if (req.stage === WorkflowStage.DOLL_REPLACEMENT) {
-      const ref = imgs.filter(i => i.category === 'rep-ref');
-      const prod = imgs.filter(i => i.category === 'rep-prod');
-      if (ref.length !== 1 || prod.length !== 1) {
-        return "Rules: Select exactly 1 Reference image and 1 Product image.";
-      }
-      req.input_images = [...ref, ...prod];
+    if (!modelConfig.aspectRatios.includes(aspect_ratio)) {
+      return `${model} does not support aspect ratio ${aspect_ratio} (supported: ${modelConfig.aspectRatios.join(', ')}).`;
+    }
+    const extrasError = checkExtras(modelConfig, req.extras);
+    if (extrasError) return extrasError;
+    const maxVariations = modelConfig.payload?.variations?.max ?? 1;
+    const variations = req.variations ?? 1;
+    if (!Number.isInteger(variations) || variations < 1 || variations > maxVariations) {
+      return `${model} supports 1 to ${maxVariations} variation(s) per task.`;
+    }
+
+    // Exactly one image per slot, reordered to match the prompt (图1, 图2, ...)
+    const slots = STAGE_SLOTS[req.stage];
+    if (!slots) return `Unknown stage: ${req.stage}`;
+    const grouped = slots.map(slot => input_images.filter(i => i.category === slot.category));
+    if (grouped.some(g => g.length !== 1)) {
+      return `Rules: Select exactly ${slots.map(slot => `1 ${slot.label}`).join(', ')} image.`;
     }
+    req.input_images = grouped.map(g => g[0]);
 
     return null;
   }
 
+  // --- Dry Run ---
+  // Validates and builds the payload exactly as a real run would, without uploading
+  // inputs or calling the provider. Input links are placeholders, so no server path is shown.
+  public async previewRequest(req: GenerateRequest): Promise<PreviewResult> {
+    const projectError = await checkProject(req.projectId);
+    if (projectError) throw new Error(projectError);
+    const settings = withProjectPrompts(await DB.getConfig(), await this.projectOf(req));
+    const error = this.validateRequest(req, settings);
+    if (error) throw new Error(error);
+
+    const provider = getProviderForModel(req.model, settings);
+    const slots = STAGE_SLOTS[req.stage];
+    const inputs = req.input_images.map((img, i) => ({ role: `图${i + 1}`, slot: slots[i].label, name: img.name, url: img.url }));
+    const links = req.input_images.map((img, i) => provider.needsHostedInputs ? `<图${i + 1}: ${img.name}, uploaded at run time>` : `<图${i + 1}: ${img.name}, read from the server>`);
+    const payload = this.constructPayload(req, settings, links);
+    return { provider: provider.name, prompt: payload.prompt, inputs, payload };
+  }
+
   // --- Task Submission ---
-  public async submitTask(req: GenerateRequest): Promise<TaskItem> {
-    const error = this.validateRequest(req);
+  public async submitTask(req: GenerateRequest, origin: TaskOrigin = {}): Promise<TaskItem> {
+    const key = req.idempotencyKey;
+    return this.once(
+      scopedKey(key, origin.owner),
+      () => DB.findTaskByIdempotencyKey(key!, origin.owner, Date.now() - IDEMPOTENCY_WINDOW_MS),
+      () => this.createTask(req, origin)
+    );
+  }
+
+  // Runs submit once per idempotency key. Concurrent repeats share the in-flight call;
+  // later repeats get whatever find() returns.
+  private async once<T>(key: string | undefined, find: () => Promise<T | null>, submit: () => Promise<T>): Promise<T> {
+    if (!key) return submit();
+    const inFlight = this.inFlightKeys.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = (async () => (await find()) || submit())();
+    this.inFlightKeys.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      this.inFlightKeys.delete(key);
+    }
+  }
+
+  private async createTask(req: GenerateRequest, origin: TaskOrigin): Promise<TaskItem> {
+    const { owner, parentTaskId, batchId, pipelineId } = origin;
+    // Validated against the saved config; executeTask reads it again when the task starts
+    const settings = await DB.getConfig();
+    const error = await checkProject(req.projectId)
+      || this.validateRequest(req, settings)
+      || await checkQuota(owner, [req.model], settings)
+      || await checkBudget([req], settings);
     if (error) throw new Error(error);
 
+    const { idempotencyKey, ...params } = req;
+
+    // Not an error: the user may really want a second copy, but it is usually a double submit
+    const active = await DB.findActiveDuplicate(requestFingerprint(params), owner);
+
     const taskId = `task-${Date.now()}-${uuidv4().substr(0, 4)}`;
     
     const newTask: TaskItem = {
@@ -87,43 +224,315 @@ export class WorkflowEngine {
       type: req.stage.replace(/_/g, ' ').toUpperCase(),
       status: 'pending',
       model: req.model,
+      provider: getProviderForModel(req.model, settings).name,
       inputImages: req.input_images,
       outputImages: [],
       logs: [], // Init logs
       startTime: new Date().toLocaleString(),
+      params,
+      parentTaskId,
+      batchId,
+      pipelineId,
+      idempotencyKey,
+      duplicateOf: active?.id,
+      owner,
+      estimatedCost: estimateCost(req, settings),
+      projectId: req.projectId,
     };
 
     await DB.addTask(newTask);
+    if (active) {
+      await DB.addTaskLog(taskId, `Warning: an identical request is already ${active.status} as task ${active.id}.`);
+    }
+    if (parentTaskId) {
+      await DB.addTaskLog(taskId, `Resubmitted from task ${parentTaskId}`);
+    }
 
-    // Attach ID to request for internal tracking
-    (req as any)._taskId = taskId;
-    
-    this.queue.push(req);
+    this.queue.push({ taskId, req });
     this.processQueue();
 
     return newTask;
   }
 
+  // --- Batch Submission ---
+  // Expands several selected images per slot into one task per combination
+  public async submitBatch(req: BatchRequest, owner?: string): Promise<{ batch: BatchItem; tasks: TaskItem[] }> {
+    const key = req.idempotencyKey;
+    return this.once(
+      scopedKey(key, owner),
+      async () => {
+        const batch = await DB.findBatchByIdempotencyKey(key!, owner, Date.now() - IDEMPOTENCY_WINDOW_MS);
+        if (!batch) return null;
+        return { batch, tasks: await DB.getTasksByIds(batch.taskIds) };
+      },
+      () => this.createBatch(req, owner)
+    );
+  }
+
+  private async createBatch(req: BatchRequest, owner?: string): Promise<{ batch: BatchItem; tasks: TaskItem[] }> {
+    // The key belongs to the batch; its tasks must not share it
+    const { mode, idempotencyKey, ...base } = req;
+    const combos = expandBatch(req);
+    if (typeof combos === 'string') throw new Error(combos);
+    const projectError = await checkProject(req.projectId);
+    if (projectError) throw new Error(projectError);
+
+    // Validate every request up front so a bad model/size does not leave a half-created batch
+    const requests: GenerateRequest[] = combos.map(images => ({ ...base, input_images: images }));
+    const settings = await DB.getConfig();
+    for (const r of requests) {
+      const error = this.validateRequest(r, settings);
+      if (error) throw new Error(error);
+    }
+    const limitError = await checkQuota(owner, requests.map(r => r.model), settings) || await checkBudget(requests, settings);
+    if (limitError) throw new Error(limitError);
+
+    const batch: BatchItem = {
+      id: `batch-${Date.now()}-${uuidv4().substr(0, 4)}`,
+      stage: req.stage,
+      model: req.model,
+      mode,
+      taskIds: [],
+      createdAt: new Date().toLocaleString(),
+      idempotencyKey,
+      owner,
+      projectId: req.projectId,
+    };
+    await DB.addBatch(batch);
+
+    // Recorded after each task, so the ones created before a failure (quota or budget used up by a
+    // concurrent submit, project deleted meanwhile) still belong to the batch
+    const tasks: TaskItem[] = [];
+    for (const r of requests) {
+      tasks.push(await this.submitTask(r, { owner, batchId: batch.id }));
+      batch.taskIds = tasks.map(t => t.id);
+      await DB.updateBatch(batch.id, { taskIds: batch.taskIds });
+    }
+
+    return { batch, tasks };
+  }
+
+  // --- Pipelines ---
+  // Runs stages one after another, feeding each step's output into a slot of the next step
+  public async submitPipeline(req: PipelineRequest, owner?: string): Promise<PipelineRun> {
+    const settings = await DB.getConfig();
+    // Quota and budget for every step up front, so a run does not stop halfway for lack of them
+    const error = await checkProject(req.projectId)
+      || this.validatePipeline(req, settings)
+      || await checkQuota(owner, req.steps.map(step => step.model), settings)
+      || await checkBudget(req.steps, settings);
+    if (error) throw new Error(error);
+
+    const run: PipelineRun = {
+      id: `pipe-${Date.now()}-${uuidv4().substr(0, 4)}`,
+      name: req.name || req.steps.map(s => s.stage.replace(/_/g, ' ')).join(' → '),
+      status: 'running',
+      steps: req.steps.map(step => ({ ...step, status: 'waiting' } as PipelineStep)),
+      input_images: req.input_images,
+      createdAt: new Date().toLocaleString(),
+      owner,
+      projectId: req.projectId,
+    };
+    await DB.addPipeline(run);
+
+    try {
+      await this.startPipelineStep(run, 0, []);
+    } catch (e: any) {
+      run.steps[0].status = 'failed';
+      await DB.updatePipeline(run.id, { status: 'failed', steps: run.steps, endTime: new Date().toLocaleString() });
+      throw e;
+    }
+    return run;
+  }
+
+  public validatePipeline(req: PipelineRequest, settings: AppSettings): string | null {
+    if (!req.steps || req.steps.length === 0) return "Pipeline has no steps.";
+
+    for (let i = 0; i < req.steps.length; i++) {
+      const step = req.steps[i];
+      const next = req.steps[i + 1];
+      if (next && !STAGE_SLOTS[next.stage]?.some(slot => slot.category === step.outputTo)) {
+        return `Step ${i + 1}: output must go to an input slot of ${next.stage}.`;
+      }
+
+      // Dry-run validation with a placeholder where the previous output will be
+      const piped = i > 0 ? req.steps[i - 1].outputTo : undefined;
+      const placeholder: ImageItem[] = piped ? [{ id: 'piped', url: '', local_path: '', name: 'piped', category: piped }] : [];
+      const error = this.validateRequest({
+        ...step,
+        input_images: [...this.pipelineInputsFor(req.input_images, step, piped), ...placeholder],
+      }, settings);
+      if (error) return `Step ${i + 1} (${step.stage}): ${error}`;
+    }
+    return null;
+  }
+
+  // Fixed inputs belonging to a step's slots, minus the slot fed by the previous step
+  private pipelineInputsFor(images: ImageItem[], step: PipelineStepRequest, piped?: string): ImageItem[] {
+    const categories = (STAGE_SLOTS[step.stage] || []).map(slot => slot.category).filter(c => c !== piped);
+    return images.filter(img => img.category && categories.includes(img.category));
+  }
+
+  private async startPipelineStep(run: PipelineRun, index: number, pipedImages: ImageItem[]) {
+    const step = run.steps[index];
+    const piped = index > 0 ? run.steps[index - 1].outputTo : undefined;
+    const task = await this.submitTask({
+      stage: step.stage,
+      model: step.model,
+      size: step.size,
+      aspect_ratio: step.aspect_ratio,
+      prompt: step.prompt,
+      input_images: [
+        ...this.pipelineInputsFor(run.input_images, step, piped),
+        ...pipedImages.map(img => ({ ...img, category: piped })),
+      ],
+      projectId: run.projectId,
+    }, { owner: run.owner, pipelineId: run.id });
+
+    run.steps[index] = { ...step, taskId: task.id, status: 'pending' };
+    await DB.updatePipeline(run.id, { steps: run.steps });
+    await DB.addTaskLog(task.id, `Pipeline ${run.id}: step ${index + 1}/${run.steps.length}`);
+  }
+
+  private async advancePipeline(task: TaskItem) {
+    const run = await DB.getPipeline(task.pipelineId!);
+    if (!run || run.status !== 'running') return;
+    const index = run.steps.findIndex(s => s.taskId === task.id);
+    if (index === -1) return;
+
+    run.steps[index].status = task.status;
+    const finish = async (status: PipelineRun['status']) => {
+      run.steps.forEach(s => { if (s.status === 'waiting') s.status = 'skipped'; });
+      await DB.updatePipeline(run.id, { status, steps: run.steps, endTime: new Date().toLocaleString() });
+    };
+
+    if (task.status !== 'completed') {
+      return finish(task.status === 'cancelled' ? 'cancelled' : 'failed');
+    }
+    if (index === run.steps.length - 1) {
+      return finish('completed');
+    }
+
+    try {
+      await this.startPipelineStep(run, index + 1, task.outputImages.slice(0, 1));
+    } catch (e: any) {
+      console.error(`Pipeline ${run.id} could not start step ${index + 2}:`, e);
+      run.steps[index + 1].status = 'failed';
+      await finish('failed');
+    }
+  }
+
+  // --- Startup Resume ---
+  // Re-queues tasks interrupted by a restart. Tasks that already reached GeekAI go to the
+  // front of the queue and skip straight to polling, so nothing is submitted twice.
+  public async resumeTasks(tasks: TaskItem[]): Promise<void> {
+    if (tasks.length === 0) return;
+    const settings = await DB.getConfig();
+    this.maxConcurrency = settings.concurrency || this.maxConcurrency;
+
+    const remote: QueuedTask[] = [];
+    const fresh: QueuedTask[] = [];
+    for (const task of tasks) {
+      if (!task.params) continue;
+      const req: GenerateRequest = { ...task.params };
+      if (task.geekai_task_id) {
+        await DB.addTaskLog(task.id, `Server restarted. Resuming polling of remote task ${task.geekai_task_id}.`);
+        remote.push({ taskId: task.id, req, remoteTaskId: task.geekai_task_id, provider: task.provider, resultCacheKey: task.resultCacheKey });
+      } else {
+        await DB.addTaskLog(task.id, "Server restarted. Task re-queued.");
+        fresh.push({ taskId: task.id, req });
+      }
+    }
+
+    this.queue.unshift(...remote, ...fresh);
+    for (let i = 0; i < this.maxConcurrency; i++) this.processQueue();
+  }
+
+  // --- Retry / Remix ---
+  // Resubmits a finished task with its stored inputs. Overrides turn a plain retry into a remix.
+  public async resubmitTask(taskId: string, overrides: RemixOverrides = {}, owner?: string): Promise<TaskItem> {
+    const source = await DB.getTask(taskId);
+    if (!source) throw new Error("Task not found");
+    if (!source.params) throw new Error("Task was created before request parameters were recorded and cannot be retried");
+
+    for (const img of source.params.input_images) {
+      if (!img.local_path || !await fs.pathExists(img.local_path)) {
+        throw new Error(`Input image ${img.name} no longer exists`);
+      }
+    }
+
+    const req: GenerateRequest = {
+      ...source.params,
+      input_images: [...source.params.input_images],
+    };
+    if (overrides.model) req.model = overrides.model;
+    if (overrides.size) req.size = overrides.size;
+    if (overrides.aspect_ratio) req.aspect_ratio = overrides.aspect_ratio;
+    if (overrides.prompt !== undefined) req.prompt = overrides.prompt;
+    // Retrying is asking for a new result, which the cache would otherwise hand back unchanged
+    req.forceRegenerate = true;
+
+    return this.submitTask(req, { owner, parentTaskId: taskId });
+  }
+
+  // --- Cancellation ---
+  // Removes a queued request or aborts an in-flight one. Returns false if the task is not active.
+  public async cancelTask(taskId: string): Promise<boolean> {
+    const queuedIndex = this.queue.findIndex(entry => entry.taskId === taskId);
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+    } else {
+      const controller = this.running.get(taskId);
+      if (!controller) return false;
+      controller.abort();
+      // Free the slot right away instead of waiting for the aborted request to unwind
+      this.running.delete(taskId);
+    }
+
+    await DB.addTaskLog(taskId, "Task cancelled by user.");
+    await DB.updateTask(taskId, {
+      status: 'cancelled',
+      endTime: new Date().toLocaleString()
+    });
+    this.processQueue();
+    await this.onTaskSettled(taskId);
+    return true;
+  }
+
+  // Called once a task reaches a final status (completed / failed / cancelled)
+  private async onTaskSettled(taskId: string) {
+    try {
+      const task = await DB.getTask(taskId);
+      if (task?.pipelineId) await this.advancePipeline(task);
+    } catch (e) {
+      console.error(`Post-processing of task ${taskId} failed:`, e);
+    }
+  }
+
   // --- Queue Processor ---
   private async processQueue() {
     if (this.queue.length === 0) return;
-    if (this.activeCount >= this.maxConcurrency) return;
+    if (this.running.size >= this.maxConcurrency) return;
 
-    const req = this.queue.shift();
-    if (!req) return;
+    const entry = this.queue.shift();
+    if (!entry) return;
 
-    this.activeCount++;
-    const taskId = (req as any)._taskId;
+    const { taskId } = entry;
+    const controller = new AbortController();
+    this.running.set(taskId, controller);
 
     // Start processing in background without blocking
-    this.executeTask(taskId, req).finally(() => {
-      this.activeCount--;
+    this.executeTask(entry, controller.signal).finally(() => {
+      // A cancelled task has already released its slot
+      if (this.running.get(taskId) === controller) {
+        this.running.delete(taskId);
+      }
       this.processQueue();
     });
   }
 
   // --- Execution Logic ---
-  private async executeTask(taskId: string, req: GenerateRequest) {
+  private async executeTask({ taskId, req, remoteTaskId, provider: resumedProvider, resultCacheKey: resumedCacheKey }: QueuedTask, signal: AbortSignal) {
     try {
       await DB.updateTask(taskId, { status: 'processing' });
       
@@ -133,61 +542,94 @@ export class WorkflowEngine {
       await DB.addTaskLog(taskId, `Task init. PID: ${process.pid}, Mem: ${memInfo}`);
       await DB.addTaskLog(taskId, `Stage: ${req.stage}, Model: ${req.model}, Size: ${req.size}, Ratio: ${req.aspect_ratio}`);
 
-      // 1. Upload to OSS
-      await DB.addTaskLog(taskId, `Starting upload of ${req.input_images.length} images to Aliyun OSS...`);
-      const ossLinks = await this.uploadImagesToOSS(req.input_images, req.settings, taskId);
-      await DB.addTaskLog(taskId, "OSS upload completed successfully.");
-      
-      // Log OSS Links
-      for (let i = 0; i < ossLinks.length; i++) {
-        await DB.addTaskLog(taskId, `OSS Link [${i}]: ${ossLinks[i]}`);
+      // Read when the task starts, so queued tasks pick up config saved after they were submitted
+      const project = await this.projectOf(req);
+      const settings = withProjectPrompts(await DB.getConfig(), project);
+      const saveDir = projectOutputDir(settings, project);
+      if (project) await DB.addTaskLog(taskId, `Project: ${project.name}`);
+
+      // Set when resuming after a restart: the remote job already exists
+      let taskUuid = remoteTaskId;
+      let cacheKey = resumedCacheKey;
+      // A resumed task keeps polling the provider it was submitted to
+      const provider = resumedProvider ? getProvider(resumedProvider) : getProviderForModel(req.model, settings);
+      const ctx: ProviderContext = { settings, taskId, signal };
+      const policy = getRetryPolicy(req.model, settings);
+      await DB.addTaskLog(taskId, `Provider: ${provider.name}`);
+
+      // Inputs are hashed only before submitting: a resumed job must not fail over an input deleted meanwhile
+      if (!taskUuid) {
+        cacheKey = await this.resultCacheKey(req, settings, provider);
+        if (req.forceRegenerate) {
+          await DB.addTaskLog(taskId, "Force regenerate: result cache skipped.");
+        } else {
+          const cached = await this.reuseCachedResult(cacheKey, saveDir, taskId);
+          if (cached) {
+            await this.completeTask(taskId, cached.saved, project, signal, cached.taskId);
+            return;
+          }
+        }
       }
 
-      // 2. Construct Payload
-      await DB.addTaskLog(taskId, "Constructing API payload...");
-      const payload = this.constructPayload(req, ossLinks);
-      
-      // Detailed Payload Logging
-      await DB.addTaskLog(taskId, `--- API REQUEST PAYLOAD ---`);
-      await DB.addTaskLog(taskId, JSON.stringify(payload, null, 2));
-      await DB.addTaskLog(taskId, `---------------------------`);
+      if (!taskUuid) {
+        // 1. Host inputs where the provider can read them
+        let inputLinks: string[];
+        if (provider.needsHostedInputs) {
+          const backend = getStorageBackend(settings);
+          await DB.addTaskLog(taskId, `Starting upload of ${req.input_images.length} images to ${backend.label}...`);
+          inputLinks = await this.hostInputs(backend, req.input_images, ctx);
+          await DB.addTaskLog(taskId, "Upload completed successfully.");
+        } else {
+          await DB.addTaskLog(taskId, `Provider ${provider.name} reads local files, skipping upload.`);
+          inputLinks = req.input_images.map(img => img.local_path);
+        }
+        
+        // Log input links
+        for (let i = 0; i < inputLinks.length; i++) {
+          await DB.addTaskLog(taskId, `Input Link [${i}]: ${shortenDataUri(inputLinks[i])}`);
+        }
 
-      // 3. Call GeekAI (with retry)
-      await DB.addTaskLog(taskId, "Submitting task to GeekAI API...");
-      const taskUuid = await this.callGeekAI(payload, req.settings.geekaiApiKey, taskId);
-      await DB.updateTask(taskId, { geekai_task_id: taskUuid });
-      await DB.addTaskLog(taskId, `Task submitted successfully. Remote ID: ${taskUuid}`);
+        // 2. Construct Payload
+        await DB.addTaskLog(taskId, "Constructing API payload...");
+        const payload = this.constructPayload(req, settings, inputLinks);
+        
+        // Detailed Payload Logging
+        await DB.addTaskLog(taskId, `--- API REQUEST PAYLOAD ---`);
+        await DB.addTaskLog(taskId, JSON.stringify(payload, (key, value) => typeof value === 'string' ? shortenDataUri(value) : value, 2));
+        await DB.addTaskLog(taskId, `---------------------------`);
+
+        // 3. Submit to provider (with retry)
+        await DB.addTaskLog(taskId, `Submitting task to ${provider.name}...`);
+        taskUuid = await this.submitToProvider(provider, payload, ctx, policy);
+        await DB.updateTask(taskId, { geekai_task_id: taskUuid, resultCacheKey: cacheKey });
+        await DB.addTaskLog(taskId, `Task submitted successfully. Remote ID: ${taskUuid}`);
+      }
 
       // 4. Poll Results
       await DB.addTaskLog(taskId, "Polling for results...");
-      const resultUrl = await this.pollGeekAIResult(taskUuid, req.settings.geekaiApiKey, taskId);
-      await DB.addTaskLog(taskId, `Image generation succeeded. Result URL: ${resultUrl}`);
-      await DB.addTaskLog(taskId, "Downloading result...");
-
-      // 5. Download Result
-      const localPath = await this.downloadImage(resultUrl, req.settings.workingDirectory, taskId);
-      await DB.addTaskLog(taskId, `Image saved to ${localPath}`);
-
-      // Success
-      const outputImg: ImageItem = {
-        id: `out-${Date.now()}`,
-        // Relative URL: /files/gen_xxx.jpg
-        url: `/files/${path.basename(localPath)}`, 
-        local_path: localPath,
-        name: path.basename(localPath),
-        selected: false
-      };
-
-      const duration = await this.calculateDuration(taskId);
-      await DB.updateTask(taskId, {
-        status: 'completed',
-        endTime: new Date().toLocaleString(),
-        duration,
-        outputImages: [outputImg]
-      });
-      await DB.addTaskLog(taskId, `Task completed in ${duration}.`);
+      const resultUrls = await this.pollResult(provider, taskUuid, ctx, policy);
+      await DB.addTaskLog(taskId, `Image generation succeeded. ${resultUrls.length} result(s):`);
+      for (let i = 0; i < resultUrls.length; i++) {
+        await DB.addTaskLog(taskId, `Result URL [${i}]: ${resultUrls[i]}`);
+      }
+      await DB.addTaskLog(taskId, "Downloading results...");
+
+      // 5. Download Results
+      const saved = await this.downloadResults(provider, resultUrls, saveDir, ctx, policy);
+
+      if (signal.aborted) return;
+      // Jobs submitted before cache keys were stored on the task have none
+      if (cacheKey) {
+        await DB.setResultCacheEntry(cacheKey, {
+          taskId,
+          outputs: saved.map(({ localPath, variation }) => ({ local_path: localPath, variation })),
+        });
+      }
+      await this.completeTask(taskId, saved, project, signal);
 
     } catch (error: any) {
+      // Status and log line were already written by cancelTask
+      if (signal.aborted) return;
       console.error(`Task ${taskId} failed:`, error);
       const errMsg = error.message || "Unknown error";
       // Ensure we try to log to file even if DB is locked
@@ -198,200 +640,250 @@ export class WorkflowEngine {
         endTime: new Date().toLocaleString(),
         error_message: errMsg
       });
+      await this.onTaskSettled(taskId);
     }
   }
 
   // --- Helpers ---
 
-  private async calculateDuration(taskId: string): Promise<string> {
-    const tasks = await DB.getTasks();
-    const t = tasks.find(x => x.id === taskId);
-    if (!t) return "0s";
-    const start = new Date(t.startTime).getTime();
-    const end = new Date().getTime();
-    return `${((end - start) / 1000).toFixed(1)}s`;
+  // Null when the request is not in a project, or the project no longer exists
+  private async projectOf(req: GenerateRequest): Promise<Project | null> {
+    return req.projectId ? DB.getProject(req.projectId) : null;
   }
 
-  private constructPayload(req: GenerateRequest, ossLinks: string[]): any {
-    const { model, size, aspect_ratio, settings, stage } = req;
-    
-    let prompt = "";
-    if (stage === WorkflowStage.HAIRSTYLE_EXTRACTION) prompt = settings.promptHairstyle;
-    else if (stage === WorkflowStage.DOLL_ASSEMBLY) prompt = settings.promptAssembly;
-    else if (stage === WorkflowStage.DOLL_REPLACEMENT) prompt = settings.promptReplacement;
-
-    const payload: any = {
-      model,
-      image: ossLinks,
-      prompt
-    };
+  private async completeTask(taskId: string, saved: { localPath: string; variation: number }[], project: Project | null, signal: AbortSignal, cachedFrom?: string) {
+    const outputImages: ImageItem[] = saved.map(({ localPath, variation }) => ({
+      id: `out-${uuidv4()}`,
+      // Relative URL: /files/gen_xxx.jpg, or /files/projects/<folder>/gen_xxx.jpg
+      url: project ? `/files/projects/${project.folder}/${path.basename(localPath)}` : `/files/${path.basename(localPath)}`,
+      local_path: localPath,
+      name: path.basename(localPath),
+      selected: false,
+      variation
+    }));
+
+    const duration = await this.calculateDuration(taskId);
+    if (signal.aborted) return;
+    await DB.updateTask(taskId, {
+      status: 'completed',
+      endTime: new Date().toLocaleString(),
+      duration,
+      outputImages,
+      cachedFrom,
+      // Nothing was charged for a cached result
+      ...(cachedFrom ? { actualCost: 0 } : {})
+    });
+    await DB.addTaskLog(taskId, `Task completed in ${duration}.`);
+    await this.onTaskSettled(taskId);
+  }
 
-    const isAuto = aspect_ratio === "Auto";
+  // Content address of a request: provider plus the resolved payload, with each input link
+  // replaced by the file's hash so re-uploads of the same image still match
+  private async resultCacheKey(req: GenerateRequest, settings: AppSettings, provider: ImageProvider): Promise<string> {
+    const hashes = await Promise.all(req.input_images.map(img => hashFile(img.local_path)));
+    const payload = this.constructPayload(req, settings, hashes.map(h => `sha256:${h}`));
+    return crypto.createHash('sha256').update(JSON.stringify([provider.name, payload])).digest('hex');
+  }
 
-    if (model === "doubao-seedream-4.5" || model === "doubao-seedream-4.0") {
-      if (size === "2K") {
-        payload.size = !isAuto ? (PIXEL_MAP_2K[aspect_ratio] || "2048x2048") : "2K";
-      } else {
-        // 4K or 1K
-        payload.size = size;
-        if (!isAuto) {
-          payload.prompt = `${prompt} --ratio ${aspect_ratio}`;
-        }
+  // Copies the outputs of an earlier identical task into the working directory. Copies rather
+  // than shared paths, because deleting an image removes its file.
+  private async reuseCachedResult(cacheKey: string, saveDir: string, taskId: string): Promise<{ taskId: string; saved: { localPath: string; variation: number }[] } | null> {
+    const entry: ResultCacheEntry | null = await DB.getResultCacheEntry(cacheKey);
+    if (!entry) return null;
+    for (const output of entry.outputs) {
+      if (!await fs.pathExists(output.local_path)) {
+        await DB.addTaskLog(taskId, `Cached result of task ${entry.taskId} is no longer on disk, generating again.`);
+        return null;
       }
-    } 
-    else if (model === "nano-banana-hd" || model === "nano-banana") {
-      if (!isAuto) payload.aspect_ratio = aspect_ratio;
-      // No size param
-    }
-    else if (model === "nano-banana-2") {
-      payload.size = size;
-      if (!isAuto) payload.aspect_ratio = aspect_ratio;
     }
-    else {
-      // Default fallback
-      payload.size = size;
+
+    await fs.ensureDir(saveDir);
+    const saved: { localPath: string; variation: number }[] = [];
+    for (const output of entry.outputs) {
+      const ext = path.extname(output.local_path);
+      const localPath = path.join(saveDir, `${path.basename(output.local_path, ext)}_${uuidv4().substr(0, 4)}${ext}`);
+      await fs.copy(output.local_path, localPath);
+      saved.push({ localPath, variation: output.variation });
     }
+    await DB.addTaskLog(taskId, `Cache hit (${cacheKey.substr(0, 12)}): reusing ${saved.length} output(s) of task ${entry.taskId}, provider not called.`);
+    return { taskId: entry.taskId, saved };
+  }
 
-    return payload;
+  private async calculateDuration(taskId: string): Promise<string> {
+    const t = await DB.getTask(taskId);
+    if (!t) return "0s";
+    const start = new Date(t.startTime).getTime();
+    const end = new Date().getTime();
+    return `${((end - start) / 1000).toFixed(1)}s`;
   }
 
-  private async uploadImagesToOSS(images: ImageItem[], settings: AppSettings, taskId: string): Promise<string[]> {
-    if (!settings.ossAccessKeyId || !settings.ossBucketName) {
-      throw new Error("OSS Configuration incomplete");
-    }
+  private constructPayload(req: GenerateRequest, settings: AppSettings, inputLinks: string[]): any {
+    const { model, size, aspect_ratio, stage } = req;
+    const modelConfig = getModelConfig(model);
+    // The catalog may have been edited since the task was queued
+    if (!modelConfig) throw new Error(`Unknown model: ${model}`);
 
-    const client = new OSS({
-      region: settings.ossEndpoint.split('.')[0], // simplified parsing, user usually provides full endpoint
-      accessKeyId: settings.ossAccessKeyId,
-      accessKeySecret: settings.ossAccessKeySecret,
-      bucket: settings.ossBucketName,
-      endpoint: settings.ossEndpoint,
-      secure: true,
-    });
+    let prompt = "";
+    if (req.prompt) prompt = req.prompt;
+    else if (stage === WorkflowStage.HAIRSTYLE_EXTRACTION) prompt = settings.promptHairstyle;
+    else if (stage === WorkflowStage.DOLL_ASSEMBLY) prompt = settings.promptAssembly;
+    else if (stage === WorkflowStage.DOLL_REPLACEMENT) prompt = settings.promptReplacement;
 
+    return buildPayload(modelConfig, { size, aspect_ratio, prompt, inputLinks, extras: req.extras, variations: req.variations });
+  }
+  private async hostInputs(backend: StorageBackend, images: ImageItem[], ctx: ProviderContext): Promise<string[]> {
+    const { taskId, signal, settings } = ctx;
     const links: string[] = [];
 
     for (const img of images) {
-        const key = `${settings.ossFolder.replace(/\/$/, '')}/${path.basename(img.local_path)}`;
-        let success = false;
-        
+        const contentHash = await hashFile(img.local_path);
+        const cacheKey = backend.cache?.key(contentHash, settings);
+
+        if (cacheKey) {
+            const cached = await DB.getUploadCacheEntry(cacheKey);
+            if (cached && cached.expiresAt > Date.now() && await this.urlExists(cached.url, signal)) {
+                await DB.addTaskLog(taskId, `${img.name}: reusing cached link (sha256 ${contentHash.substr(0, 12)}), upload skipped.`);
+                links.push(cached.url);
+                continue;
+            }
+        }
+
         // Retry 3 times, 3s interval
         for (let i = 0; i < 3; i++) {
             try {
                 await DB.addTaskLog(taskId, `Uploading ${img.name} (Attempt ${i+1}/3)...`);
-                await client.put(key, img.local_path, { timeout: 60000 });
-                // Construct URL
-                let ep = settings.ossEndpoint.replace(/^https?:\/\//, '');
-                links.push(`https://${settings.ossBucketName}.${ep}/${key}`);
-                success = true;
+                const hosted = await backend.hostFile(img, ctx, contentHash);
+                await DB.addTaskLog(taskId, hosted.existed
+                    ? `${img.name}: already stored in ${backend.label}, upload skipped.`
+                    : `${img.name}: fresh upload.`);
+                if (cacheKey && backend.cache) {
+                    await DB.setUploadCacheEntry(cacheKey, { url: hosted.url, expiresAt: Date.now() + backend.cache.ttlMs });
+                }
+                links.push(hosted.url);
                 break;
             } catch (e: any) {
+                if (signal.aborted) throw e;
                 await DB.addTaskLog(taskId, `Upload attempt ${i+1} failed: ${e.message}`);
-                if (i === 2) throw new Error(`OSS Upload Failed for ${img.name}: ${e.message}`);
-                await new Promise(r => setTimeout(r, 3000));
+                if (i === 2) throw new Error(`Upload to ${backend.label} failed for ${img.name}: ${e.message}`);
+                await sleep(3000, signal);
             }
         }
     }
     return links;
   }
 
-  private async callGeekAI(payload: any, apiKey: string, taskId: string): Promise<string> {
-    for (let i = 0; i < 3; i++) {
+  // HEAD check for a previously uploaded object
+  private async urlExists(url: string, signal: AbortSignal): Promise<boolean> {
+    try {
+        const res = await axios.head(url, { timeout: 10000, signal });
+        return res.status === 200;
+    } catch (e: any) {
+        if (signal.aborted) throw e;
+        return false;
+    }
+  }
+
+  private async submitToProvider(provider: ImageProvider, payload: any, ctx: ProviderContext, policy: RetryPolicy): Promise<string> {
+    const { taskId, signal } = ctx;
+    const attempts = policy.submitAttempts;
+    for (let i = 0; i < attempts; i++) {
         try {
-            const res = await axios.post(GEEKAI_API_URL, payload, {
-                headers: { 
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${apiKey}`
-                },
-                timeout: 600000 // 600s timeout
-            });
-            
-            await DB.addTaskLog(taskId, `API Response Status: ${res.status}`);
-            
-            if (res.status === 200 && res.data.task_id) {
-                return res.data.task_id;
-            }
-            throw new Error(`API returned ${res.status}: ${JSON.stringify(res.data)}`);
+            return await provider.submit(payload, ctx);
         } catch (e: any) {
+             if (signal.aborted) throw e;
              const errMsg = e.response?.data?.message || e.message;
-             await DB.addTaskLog(taskId, `GeekAI API Call Attempt ${i+1} Failed: ${errMsg}`);
+             await DB.addTaskLog(taskId, `${provider.name} API Call Attempt ${i+1} Failed: ${errMsg}`);
              if (e.response && e.response.data) {
                  await DB.addTaskLog(taskId, `API Error Response Data: ${JSON.stringify(e.response.data, null, 2)}`);
              }
-             if (i === 2) throw new Error(`GeekAI Request Failed: ${errMsg}`);
-             await new Promise(r => setTimeout(r, 10000)); // 10s wait
+             if (i === attempts - 1) throw new Error(`${provider.name} Request Failed after ${attempts} attempts: ${errMsg}`);
+             await sleep(policy.submitRetryDelayMs, signal);
         }
     }
-    throw new Error("GeekAI Unreachable");
+    throw new Error(`${provider.name} Unreachable`);
   }
 
-  private async pollGeekAIResult(taskId: string, apiKey: string, dbTaskId: string): Promise<string> {
-    const url = `https://geekai.co/api/v1/images/${taskId}`;
+  // Polls until the remote job finishes or policy.maxPollDurationMs runs out. The clock starts
+  // here, so a task resumed after a restart gets the full duration again.
+  private async pollResult(provider: ImageProvider, remoteId: string, ctx: ProviderContext, policy: RetryPolicy): Promise<string[]> {
+    const { taskId, signal } = ctx;
+    const deadline = Date.now() + policy.maxPollDurationMs;
+    let interval = policy.pollIntervalMs;
     let pollCount = 0;
     while (true) {
-        await new Promise(r => setTimeout(r, 3000)); // 3s polling
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+            throw new Error(`Timed out after ${formatDuration(policy.maxPollDurationMs)} waiting for ${provider.name} to finish (remote ID ${remoteId})`);
+        }
+        // The last wait is shortened so one final poll happens right at the deadline
+        await sleep(Math.min(interval, remaining), signal);
+        interval = Math.min(interval * policy.pollBackoff, policy.maxPollIntervalMs);
         pollCount++;
-        try {
-            const res = await axios.get(url, {
-                headers: { 'Authorization': `Bearer ${apiKey}` },
-                timeout: 30000
-            });
-            
-            const status = res.data.task_status;
-            if (pollCount % 10 === 0) {
-               await DB.addTaskLog(dbTaskId, `Polling... Current Status: ${status}`);
-            }
+        const result = await provider.poll(remoteId, ctx);
+        if (result.cost !== undefined) {
+            await DB.updateTask(taskId, { actualCost: result.cost });
+            await DB.addTaskLog(taskId, `Provider reported cost: ${result.cost}`);
+        }
 
-            if (status === 'succeed') {
-                return res.data.data[0].url;
-            } else if (status === 'failed') {
-                const failureMsg = res.data.error?.message || "Task failed remotely";
-                await DB.addTaskLog(dbTaskId, `Remote Task Failed: ${failureMsg}`);
-                throw new Error(failureMsg);
-            }
-            // pending or running, continue
-        } catch (e: any) {
-            // Check if it is a fatal error or network glitch
-            if (e.response && e.response.status >= 400 && e.response.status < 500) {
-                const errMsg = e.response.data?.message || "API Error";
-                await DB.addTaskLog(dbTaskId, `Polling Fatal Error: ${errMsg}`);
-                throw new Error(errMsg);
+        if (pollCount % 10 === 0) {
+           await DB.addTaskLog(taskId, `Polling... Current Status: ${result.rawStatus || result.status}`);
+        }
+
+        if (result.status === 'succeeded') {
+            if (!result.resultUrls || result.resultUrls.length === 0) {
+                throw new Error("Provider reported success but returned no images");
             }
-            // Network glitch, continue polling
-            console.warn("Polling glitch, retrying...", e.message);
+            return result.resultUrls;
+        } else if (result.status === 'failed') {
+            const failureMsg = result.error || "Task failed remotely";
+            await DB.addTaskLog(taskId, `Remote Task Failed: ${failureMsg}`);
+            throw new Error(failureMsg);
         }
+        // pending or running, continue
     }
   }
 
-  private async downloadImage(url: string, saveDir: string, taskId: string): Promise<string> {
-    await fs.ensureDir(saveDir);
-    const fileName = `gen_${Date.now()}_${path.basename(url.split('?')[0])}`;
-    // Resolve absolute path
-    const filePath = path.resolve(saveDir, fileName);
+  // Downloads all results in parallel. A variation that still fails after its retries is
+  // dropped; the task only fails when none of them could be saved.
+  private async downloadResults(provider: ImageProvider, urls: string[], saveDir: string, ctx: ProviderContext, policy: RetryPolicy): Promise<{ localPath: string; variation: number }[]> {
+    const { taskId, signal } = ctx;
+    let lastError: any = null;
+    const results = await Promise.all(urls.map(async (url, variation) => {
+        try {
+            const localPath = await this.downloadResult(provider, url, saveDir, ctx, policy);
+            await DB.addTaskLog(taskId, `Variation ${variation} saved to ${localPath}`);
+            return { localPath, variation };
+        } catch (e: any) {
+            if (signal.aborted) throw e;
+            lastError = e;
+            await DB.addTaskLog(taskId, `Variation ${variation} dropped: ${e.message}`);
+            return null;
+        }
+    }));
 
-    // Infinite retry, 3s interval, 30s timeout per request
-    while (true) {
+    const saved = results.filter((r): r is { localPath: string; variation: number } => r !== null);
+    if (saved.length === 0) throw lastError || new Error("Provider returned no results");
+    return saved;
+  }
+
+  private async downloadResult(provider: ImageProvider, url: string, saveDir: string, ctx: ProviderContext, policy: RetryPolicy): Promise<string> {
+    const { taskId, signal } = ctx;
+    const attempts = policy.downloadAttempts;
+    for (let i = 0; i < attempts; i++) {
+        const attempt = withTimeout(signal, policy.downloadTimeoutMs);
         try {
-            const response = await axios({
-                url,
-                method: 'GET',
-                responseType: 'stream',
-                timeout: 30000
-            });
-
-            const writer = fs.createWriteStream(filePath);
-            response.data.pipe(writer);
-
-            await new Promise((resolve, reject) => {
-                writer.on('finish', resolve);
-                writer.on('error', reject);
-            });
-            return filePath;
+            return await provider.fetchResult(url, saveDir, { ...ctx, signal: attempt.signal });
         } catch (e: any) {
-            await DB.addTaskLog(taskId, `Download failed (retrying): ${e.message}`);
-            console.warn("Download failed, retrying...", e);
-            await new Promise(r => setTimeout(r, 3000));
+            if (signal.aborted) throw e;
+            const reason = attempt.signal.aborted ? `timed out after ${formatDuration(policy.downloadTimeoutMs)}` : e.message;
+            await DB.addTaskLog(taskId, `Download attempt ${i+1}/${attempts} failed: ${reason}`);
+            console.warn("Download failed:", reason);
+            if (i === attempts - 1) throw new Error(`Download failed after ${attempts} attempts: ${reason}`);
+            await sleep(policy.downloadRetryDelayMs, signal);
+        } finally {
+            attempt.clear();
         }
     }
+    throw new Error("Download failed");
   }
 }
@@ -5,55 +5,29 @@ export interface ImageItem {
   name: string;
   selected: boolean;
   category?: string; // For multi-category sections
+  variation?: number; // Index among the images one task returned
+  owner?: string; // Username of the uploader
+  projectId?: string;
+  tags?: string[];
+  notes?: string;
 }
 
-export enum AIModel {
-  DOUBAO_SEEDREAM_4_0 = "doubao-seedream-4.0",
-  DOUBAO_SEEDREAM_4_5 = "doubao-seedream-4.5",
-  JIMENG_T2I_V40 = "jimeng_t2i_v40",
-  NANO_BANANA_HD = "nano-banana-hd",
-  NANO_BANANA = "nano-banana",
-  NANO_BANANA_2 = "nano-banana-2",
-}
-
-export const MODEL_CONFIGS = {
-  [AIModel.DOUBAO_SEEDREAM_4_5]: {
-    aspectRatios: ["Auto", "1:1", "4:3", "3:4", "16:9", "9:16", "3:2", "2:3", "21:9"],
-    sizes: ["2K", "4K"],
-    defaultSize: "2K",
-    defaultAspectRatio: "Auto"
-  },
-  [AIModel.DOUBAO_SEEDREAM_4_0]: {
-    aspectRatios: ["Auto", "1:1", "4:3", "3:4", "16:9", "9:16", "3:2", "2:3", "21:9"],
-    sizes: ["1K", "2K", "4K"],
-    defaultSize: "1K",
-    defaultAspectRatio: "Auto"
-  },
-  [AIModel.JIMENG_T2I_V40]: {
-    aspectRatios: ["Auto", "1:1", "4:3", "16:9", "3:2", "21:9"],
-    sizes: ["1K", "2K", "4K"],
-    defaultSize: "1K",
-    defaultAspectRatio: "Auto"
-  },
-  [AIModel.NANO_BANANA_HD]: {
-    aspectRatios: ["Auto", "1:1", "2:3", "3:2", "4:3", "3:4", "4:5", "5:4", "16:9", "9:16", "21:9"],
-    sizes: ["4K"],
-    defaultSize: "4K",
-    defaultAspectRatio: "Auto"
-  },
-  [AIModel.NANO_BANANA]: {
-    aspectRatios: ["Auto", "1:1", "2:3", "3:2", "4:3", "3:4", "4:5", "5:4", "16:9", "9:16", "21:9"],
-    sizes: ["1K"],
-    defaultSize: "1K",
-    defaultAspectRatio: "Auto"
-  },
-  [AIModel.NANO_BANANA_2]: {
-    aspectRatios: ["Auto", "1:1", "2:3", "3:2", "4:3", "3:4", "4:5", "5:4", "16:9", "9:16", "21:9"],
-    sizes: ["1K", "2K", "4K"],
-    defaultSize: "1K",
-    defaultAspectRatio: "Auto"
-  },
-};
+// Body of PATCH /api/images/:id
+export type ImageUpdate = Partial<Pick<ImageItem, 'name' | 'category' | 'tags' | 'notes'>>;
+
+// Served by GET /api/models (server/models.json)
+export interface ModelConfig {
+  id: string;
+  sizes: string[];
+  aspectRatios: string[];
+  defaultSize: string;
+  defaultAspectRatio: string;
+  // Only the adapter parts the UI needs
+  payload?: { variations?: { field: string; max: number } };
+}
+
+// Initial section settings, used until the catalog has loaded
+export const DEFAULT_MODEL = { id: "nano-banana", size: "1K", aspectRatio: "Auto" };
 
 export enum WorkflowStage {
   HAIRSTYLE_EXTRACTION = "hairstyle_extraction",
@@ -61,6 +35,29 @@ export enum WorkflowStage {
   DOLL_REPLACEMENT = "doll_replacement",
 }
 
+// Input slots per stage, in prompt order (图1, 图2, 图3)
+export const STAGE_SLOTS: Record<WorkflowStage, { category: string; label: string }[]> = {
+  [WorkflowStage.HAIRSTYLE_EXTRACTION]: [
+    { category: 'hair-ref', label: 'Reference' },
+    { category: 'hair-mannequin', label: 'Mannequin' },
+  ],
+  [WorkflowStage.DOLL_ASSEMBLY]: [
+    { category: 'asm-hair', label: 'Hair' },
+    { category: 'asm-body', label: 'Body' },
+    { category: 'asm-cloth', label: 'Cloth' },
+  ],
+  [WorkflowStage.DOLL_REPLACEMENT]: [
+    { category: 'rep-ref', label: 'Reference' },
+    { category: 'rep-prod', label: 'Product' },
+  ],
+};
+
+// Default chaining: hairstyle output feeds the assembly hair slot, assembly output the replacement product slot
+export const DEFAULT_PIPELINE_LINKS: Partial<Record<WorkflowStage, string>> = {
+  [WorkflowStage.HAIRSTYLE_EXTRACTION]: 'asm-hair',
+  [WorkflowStage.DOLL_ASSEMBLY]: 'rep-prod',
+};
+
 export interface SectionProps {
   id: string;
   title: string;
@@ -77,12 +74,125 @@ export interface AppSettings {
   ossEndpoint: string;
   ossBucketName: string;
   ossFolder: string;
+  // Input hosting backend: 'oss' | 's3' | 'public-url' | 'inline'
+  storageBackend: string;
+  // S3-compatible Config (AWS S3, MinIO, ...)
+  s3Endpoint: string;
+  s3Region: string;
+  s3AccessKeyId: string;
+  s3SecretAccessKey: string;
+  s3Bucket: string;
+  s3Folder: string;
+  // Externally reachable URL of this server, for the 'public-url' backend
+  publicBaseUrl: string;
   // Prompt Configurations
   promptHairstyle: string;
   promptAssembly: string;
   promptReplacement: string;
+  // Provider per model; unlisted models use 'geekai'
+  modelProviders: Record<string, string>;
+  mockDelayMs: number;
+  mockFailureRate: number;
+  // Per-model overrides of DEFAULT_RETRY_POLICY
+  retryPolicies: Record<string, Partial<RetryPolicy>>;
+  quotas: QuotaRule[];
+  prices: PriceRule[];
+  currency: string;
+  budget: BudgetRule | null;
+}
+
+// Tasks per user per day or month; no user = every user, no model = all models
+export interface QuotaRule {
+  period: 'day' | 'month';
+  limit: number;
+  user?: string;
+  model?: string;
+}
+
+// GET /api/quota: the rules that apply to the signed-in user
+export interface QuotaStatus extends QuotaRule {
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+// Price of one generated image; a rule with a size wins over one without
+export interface PriceRule {
+  model: string;
+  size?: string;
+  price: number;
+}
+
+// Spending ceiling for all users per day or month
+export interface BudgetRule {
+  period: 'day' | 'month';
+  limit: number;
+}
+
+export interface BudgetStatus extends BudgetRule {
+  spent: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+export interface UsageRow {
+  key: string; // Day, model, stage or username
+  tasks: number;
+  cost: number;
 }
 
+// GET /api/usage
+export interface UsageSummary {
+  from: string;
+  to: string;
+  currency: string;
+  total: number;
+  tasks: number;
+  byDay: UsageRow[];
+  byModel: UsageRow[];
+  byStage: UsageRow[];
+  byUser: UsageRow[];
+  budget: BudgetStatus | null;
+}
+
+// Write-only settings: stored encrypted, masked in GET /api/config
+export const SECRET_SETTINGS = ['geekaiApiKey', 'ossAccessKeySecret', 's3SecretAccessKey'] as const;
+export type SecretSetting = typeof SECRET_SETTINGS[number];
+
+// Durations in ms
+export interface RetryPolicy {
+  maxPollDurationMs: number;
+  pollIntervalMs: number;
+  pollBackoff: number;
+  maxPollIntervalMs: number;
+  submitAttempts: number;
+  submitRetryDelayMs: number;
+  downloadAttempts: number;
+  downloadRetryDelayMs: number;
+  downloadTimeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxPollDurationMs: 20 * 60 * 1000,
+  pollIntervalMs: 3000,
+  pollBackoff: 1.2,
+  maxPollIntervalMs: 15000,
+  submitAttempts: 3,
+  submitRetryDelayMs: 10000,
+  downloadAttempts: 5,
+  downloadRetryDelayMs: 3000,
+  downloadTimeoutMs: 120000,
+};
+
+export const PROVIDERS = ["geekai", "mock"];
+
+export const STORAGE_BACKENDS = [
+  { value: "oss", label: "Aliyun OSS" },
+  { value: "s3", label: "S3-compatible (AWS S3 / MinIO)" },
+  { value: "public-url", label: "Serve from this server (public URL)" },
+  { value: "inline", label: "Inline base64 data URI" },
+];
+
 export const DEFAULT_SETTINGS: AppSettings = {
   geekaiApiKey: "",
   concurrency: 4,
@@ -93,10 +203,26 @@ export const DEFAULT_SETTINGS: AppSettings = {
   ossEndpoint: "",
   ossBucketName: "",
   ossFolder: "doll-workflow/",
+  storageBackend: "oss",
+  s3Endpoint: "",
+  s3Region: "us-east-1",
+  s3AccessKeyId: "",
+  s3SecretAccessKey: "",
+  s3Bucket: "",
+  s3Folder: "doll-workflow/",
+  publicBaseUrl: "",
   // Default Prompts
   promptHairstyle: "图1是一张真实拍摄的毛绒娃娃电商产品主图，将这个产品的发型提取出来、戴在图2的假人模特头部模型上，并且给我穿戴效果的三视图白底图，一字排开，从左到右依次是背面、正面、侧面。保持图1拍摄时发型的形状、光影、材质、质感。",
   promptAssembly: "这三张图是电商毛绒玩偶的实拍三视图，图1是毛绒玩偶的发型、图2是毛绒玩偶的主体、图3是毛绒玩偶的衣服。帮我将图1发型、图3衣服组装到图2毛绒玩偶主体的效果图，最终给我穿戴效果的三视图白底图，从左到右一字排开，从左到右分别是背面、正面、侧面（朝向左侧）。",
-  promptReplacement: "图2的毛绒玩偶自动融合到图1的绿色填充区域，均匀自然。"
+  promptReplacement: "图2的毛绒玩偶自动融合到图1的绿色填充区域，均匀自然。",
+  modelProviders: {},
+  mockDelayMs: 5000,
+  mockFailureRate: 0,
+  retryPolicies: {},
+  quotas: [],
+  prices: [],
+  currency: "¥",
+  budget: null
 };
 
 // --- New Types for Logs and Tasks ---
@@ -108,13 +234,14 @@ export interface LogEntry {
   message: string;
 }
 
-export type TaskStatus = 'processing' | 'completed' | 'failed';
+export type TaskStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
 export interface TaskItem {
   id: string;
   type: string; // e.g. "Hairstyle Extraction"
   status: TaskStatus;
   model: string;
+  provider?: string;
   inputImages: ImageItem[];
   outputImages: ImageItem[];
   startTime: string;
@@ -122,6 +249,17 @@ export interface TaskItem {
   duration?: string; // formatted string e.g. "4.5s"
   logs?: string[]; // Detailed execution logs
   error_message?: string;
+  params?: TaskParams; // Original request, used for retry / remix
+  parentTaskId?: string; // Task this one was retried or remixed from
+  batchId?: string; // Batch this task belongs to
+  pipelineId?: string; // Pipeline run this task is a step of
+  idempotencyKey?: string;
+  duplicateOf?: string; // Identical task that was still active when this one was submitted
+  cachedFrom?: string; // Task whose outputs were reused from the result cache
+  owner?: string; // Username of the submitter
+  estimatedCost?: number; // From the price table
+  actualCost?: number; // Reported by the provider
+  projectId?: string;
 }
 
 export interface GenerateRequest {
@@ -130,5 +268,157 @@ export interface GenerateRequest {
   size: string;
   aspect_ratio: string;
   input_images: ImageItem[];
-  settings: AppSettings;
+  prompt?: string; // Overrides the stage prompt from settings
+  extras?: Record<string, number | string>; // Model parameters allowed by the model's adapter (seed, steps, ...)
+  variations?: number; // Images per task (n), default 1
+  idempotencyKey?: string; // One per click; resending it returns the original task instead of a new one
+  forceRegenerate?: boolean; // Skip the result cache
+  projectId?: string; // Applies the project's prompts and output folder
+}
+
+// Dry-run result of POST /api/generate/preview
+export interface PreviewResult {
+  provider: string;
+  prompt: string;
+  inputs: { role: string; slot: string; name: string; url: string }[];
+  payload: any;
+}
+
+export type TaskParams = Omit<GenerateRequest, 'idempotencyKey'>;
+
+// 'matrix' = every combination of the selected images, 'zip' = paired by position
+export type BatchMode = 'matrix' | 'zip';
+
+export interface BatchRequest extends GenerateRequest {
+  mode: BatchMode;
+}
+
+export interface PipelineStepRequest {
+  stage: WorkflowStage;
+  model: string;
+  size: string;
+  aspect_ratio: string;
+  prompt?: string;
+  outputTo?: string; // Input slot of the next step that receives this output
 }
+
+export interface PipelineRequest {
+  name?: string;
+  steps: PipelineStepRequest[];
+  input_images: ImageItem[];
+  projectId?: string;
+}
+
+export interface PipelineStep extends PipelineStepRequest {
+  status: 'waiting' | 'skipped' | TaskStatus;
+  taskId?: string;
+}
+
+export interface PipelineRun {
+  id: string;
+  name: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  steps: PipelineStep[];
+  input_images: ImageItem[];
+  createdAt: string;
+  endTime?: string;
+  owner?: string;
+  projectId?: string;
+}
+
+export interface BatchItem {
+  id: string;
+  stage: WorkflowStage;
+  model: string;
+  mode: BatchMode;
+  taskIds: string[];
+  createdAt: string;
+  idempotencyKey?: string;
+  owner?: string;
+  projectId?: string;
+}
+
+// --- Projects ---
+
+export type ProjectPrompts = Partial<Pick<AppSettings, 'promptHairstyle' | 'promptAssembly' | 'promptReplacement'>>;
+
+// Workspace for one doll SKU; uploads, tasks and outputs are scoped to the active one
+export interface Project {
+  id: string;
+  name: string;
+  sku?: string;
+  description?: string;
+  folder: string; // Output subfolder of the working directory
+  prompts?: ProjectPrompts; // Empty entries use the settings
+  createdAt: string;
+  owner?: string;
+}
+
+// One page of GET /api/tasks or /api/images
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor?: string; // Pass as ?cursor= for the next page; absent on the last one
+}
+
+// Task list filters; empty strings mean "any"
+export interface TaskFilters {
+  status: string;
+  stage: string;
+  model: string;
+  q: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+  sort: 'newest' | 'oldest';
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = { status: '', stage: '', model: '', q: '', from: '', to: '', sort: 'newest' };
+
+export interface RemixOverrides {
+  model?: string;
+  size?: string;
+  aspect_ratio?: string;
+  prompt?: string;
+}
+
+// --- Accounts ---
+
+// admin: settings, prompts and accounts; operator: generates and deletes own uploads; viewer: read-only
+export const ROLES = ['admin', 'operator', 'viewer'] as const;
+export type Role = typeof ROLES[number];
+
+export interface UserAccount {
+  id: string;
+  username: string;
+  role: Role;
+  createdAt: string;
+}
+
+// Personal token for scripts; the full value is only shown once, when it is created
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// GET /api/auth/session
+export interface AuthSession {
+  user: UserAccount | null;
+  setupRequired: boolean; // No account exists yet
+}
+
+// Pushed by the server over /api/events
+export type ServerEvent =
+  | { type: 'task-created'; task: TaskItem }
+  | { type: 'task-updated'; task: TaskItem }
+  | { type: 'task-log'; taskId: string; line: string }
+  | { type: 'image-added'; image: ImageItem }
+  | { type: 'image-updated'; image: ImageItem }
+  | { type: 'image-deleted'; id: string }
+  | { type: 'batch-updated'; batch: BatchItem }
+  | { type: 'pipeline-updated'; pipeline: PipelineRun }
+  | { type: 'project-updated'; project: Project }
+  | { type: 'project-deleted'; id: string };